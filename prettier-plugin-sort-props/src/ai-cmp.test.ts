@@ -0,0 +1,67 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { expect, test, vi } from 'vitest';
+import AIComparator from './ai-cmp';
+import { type SplitString } from './split-identifier';
+
+const NAMES = ['id', 'key', 'class name', 'style', 'on click', 'on change', 'disabled', 'aria label'] as SplitString[];
+
+async function rank(names: string[]): Promise<string[]> {
+  const comparator = await AIComparator.create();
+  const ranked = Array<string>();
+  for (const name of names) {
+    let i = 0;
+    while (i < ranked.length && (await comparator.compare(ranked[i] as SplitString, name as SplitString)) > 0) ++i;
+    ranked.splice(i, 0, name);
+  }
+  return ranked;
+}
+
+async function rankOf(name: string): Promise<number> {
+  return (await rank([...NAMES, name])).indexOf(name);
+}
+
+test('transliterated names rank like their ASCII names', async () => {
+  expect(await rankOf('aria label übersetzung')).toBe(await rankOf('aria label ubersetzung'));
+  expect(await rankOf('straße')).toBe(await rankOf('strasse'));
+  expect(await rankOf('ﬁle')).toBe(await rankOf('file'));
+});
+
+test('long names rank by their first and last characters', async () => {
+  const long = 'on some very long callback name which is truncated';
+  expect(await rankOf(long)).toBe(await rankOf('on some very long callbxxxxxxxxxxxxxk name which is truncated'));
+});
+
+test('a long name does not change the ranking of the other names', async () => {
+  const long = 'on some very long callback name which is truncated and then some more';
+  expect((await rank([...NAMES, long])).filter(name => name !== long)).toEqual(await rank(NAMES));
+});
+
+test('unknown characters are dropped by the bundled model', async () => {
+  const comparator = await AIComparator.create();
+  for (const name of NAMES) {
+    expect(await comparator.compare('x中文y' as SplitString, name)).toBe(
+      await comparator.compare('xy' as SplitString, name),
+    );
+  }
+  expect(await comparator.compare('x中文y' as SplitString, 'x$$y' as SplitString)).not.toBe(0);
+});
+
+test('the model can be fetched from a URL, like in browsers', async () => {
+  const fetch = vi.fn(async (url: string) => {
+    return new Response(await fs.readFile(path.join(import.meta.dirname, path.basename(new URL(url).pathname))));
+  });
+  vi.stubGlobal('fetch', fetch);
+  try {
+    const comparator = await AIComparator.create(false, 'https://example.com/models/model.onnx');
+    expect(fetch.mock.calls.map(([url]) => url).sort()).toEqual([
+      'https://example.com/models/model.json',
+      'https://example.com/models/model.onnx',
+    ]);
+    expect(await comparator.compare('id' as SplitString, 'on click' as SplitString)).toBe(
+      await (await AIComparator.create()).compare('id' as SplitString, 'on click' as SplitString),
+    );
+  } finally {
+    vi.unstubAllGlobals();
+  }
+});
@@ -1,48 +1,147 @@
-import ort from 'onnxruntime-node';
-import path from 'path';
+import { type default as DiskCache } from './disk-cache';
+import loadFile from './load-file';
+import readMetadata, { type ModelMetadata } from './model-metadata';
+import createONNXBackend from './onnx-backend';
 import { type SplitString } from './split-identifier';
+import createTokenizer from './tokenize';
+import createTSBackend from './ts-backend';
 
-const SEQ_LEN = 25;
-const VOCAB = Object.fromEntries('$abcdefghijklmnopqrstuvwxyz 0123456789'.split('').map((c, i) => [c, i + 1]));
+export const DEFAULT_MODEL_PATH = new URL('model.onnx', import.meta.url).href; // a URL, which also works in browsers
 
 /**
- * Tokenize an identifier
- * @param word The identifier, must be less than 25 characters
- * @returns The tokenized identifier
+ * Runs the model on a batch of tokenized pairs.
  */
-function tokenize(word: SplitString): ort.Tensor {
-  const tokens = new Int32Array(25);
-  for (let i = 0; i < word.length; ++i) {
-    tokens[i] = VOCAB[word[i]];
-  }
-  return new ort.Tensor(tokens, [1, SEQ_LEN]);
+export interface Backend {
+  /**
+   * @param input1 The first identifiers, `batchSize` rows of `seqLen` tokens
+   * @param input2 The second identifiers
+   * @param batchSize The number of pairs
+   * @returns The outputs, one per pair
+   */
+  run(input1: Int32Array, input2: Int32Array, batchSize: number): Promise<[cmp: Float32Array, cmpRev: Float32Array]>;
+}
+
+interface Model {
+  /**
+   * Identifies the model in the cache keys, made of its version and the hash of the model and its metadata.
+   */
+  id: string;
+  tokenize: (words: string[]) => Int32Array;
+  backend: Backend;
+}
+
+/**
+ * Hash a model with its metadata, as the metadata changes the tokens, and so the outputs.
+ */
+async function hashModel(bytes: Uint8Array, metadata: ModelMetadata): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(metadata)),
+    data = new Uint8Array(bytes.length + json.length);
+  data.set(bytes);
+  data.set(json, bytes.length);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
 }
 
+/**
+ * Load a model and its metadata. `onnxruntime-node` is used if it can be loaded, otherwise the model runs in
+ * TypeScript. `onnxruntime-node` is an optional dependency, and has no prebuilt binaries for some platforms and none
+ * for browsers.
+ */
+async function loadModel(modelPath: string): Promise<Model> {
+  const metadata = await readMetadata(modelPath);
+  const bytes = await loadFile(modelPath);
+  return {
+    id: `${metadata.version}-${(await hashModel(bytes, metadata)).slice(0, 16)}`,
+    tokenize: createTokenizer(metadata),
+    backend: (await createONNXBackend(bytes, metadata, modelPath)) ?? createTSBackend(bytes, metadata),
+  };
+}
+
+const models = new Map<string, Promise<Model>>();
+const diskCaches = new Map<string, DiskCache>();
+// the results are shared by the comparators of the same model, the keys start with the model ID
+const rawCache = new Map<string, Promise<[number, number]>>();
+const cache = new Map<string, number>();
+
 export default class AIComparator {
-  private cache = new Map<string, number>();
+  private constructor(
+    private model: Model,
+    private diskCache?: DiskCache,
+  ) {}
+  /**
+   * Create a comparator. Each model is loaded once per process.
+   * @param persistent Whether to also cache the outputs on disk, across processes. This needs Node.js.
+   * @param modelPath The path or URL of the ONNX model, with its metadata next to it
+   */
+  public static async create(persistent = false, modelPath = DEFAULT_MODEL_PATH): Promise<AIComparator> {
+    let model = models.get(modelPath);
+    if (!model) models.set(modelPath, (model = loadModel(modelPath)));
+    const loaded = await model;
 
-  private constructor(private session: ort.InferenceSession) {}
-  public static async create(): Promise<AIComparator> {
-    return new AIComparator(await ort.InferenceSession.create(path.join(import.meta.dirname, 'model.onnx')));
+    if (persistent && !diskCaches.has(loaded.id)) {
+      const { default: DiskCache } = await import('./disk-cache'); // only loaded when used, as it needs Node.js
+      if (!diskCaches.has(loaded.id)) diskCaches.set(loaded.id, DiskCache.open(loaded.id));
+    }
+    return new AIComparator(loaded, persistent ? diskCaches.get(loaded.id) : undefined);
+  }
+
+  private key(a: SplitString, b: SplitString): string {
+    return `${this.model.id}:${a}-${b}`;
   }
 
   public async rawCompare(a: SplitString, b: SplitString): Promise<[number, number]> {
-    const input1 = tokenize(a),
-      input2 = tokenize(b);
-    const result = await this.session.run({ input1, input2 });
+    return (await this.rawCompareMany([[a, b]]))[0];
+  }
+
+  /**
+   * Compare many pairs at once. The pairs which are not cached are compared in a single batch.
+   * @param pairs The pairs to compare
+   * @returns The raw outputs for each pair
+   */
+  public async rawCompareMany(pairs: [SplitString, SplitString][]): Promise<[number, number][]> {
+    const uncached = new Map<string, [SplitString, SplitString]>();
+    for (const [a, b] of pairs) {
+      const key = this.key(a, b);
+      if (rawCache.has(key)) continue;
+
+      const stored = this.diskCache?.get(key);
+      if (stored) rawCache.set(key, Promise.resolve(stored));
+      else uncached.set(key, [a, b]);
+    }
+
+    if (uncached.size) {
+      const keys = Array.from(uncached.keys());
+      const batch = this.run(Array.from(uncached.values())).then(outputs => {
+        keys.forEach((key, i) => this.diskCache?.set(key, outputs[i]));
+        return outputs;
+      });
+      keys.forEach((key, i) =>
+        rawCache.set(
+          key,
+          batch.then(outputs => outputs[i]),
+        ),
+      );
+    }
+    return await Promise.all(pairs.map(([a, b]) => rawCache.get(this.key(a, b))!));
+  }
 
-    return [(result.cmp.data as Float32Array)[0], (result.cmpRev.data as Float32Array)[0]];
+  private async run(pairs: [SplitString, SplitString][]): Promise<[number, number][]> {
+    const input1 = this.model.tokenize(pairs.map(([a]) => a)),
+      input2 = this.model.tokenize(pairs.map(([, b]) => b));
+    const [cmp, cmpRev] = await this.model.backend.run(input1, input2, pairs.length);
+    return pairs.map((_, i) => [cmp[i], cmpRev[i]]);
   }
 
   public async compare(a: SplitString, b: SplitString): Promise<number> {
-    const key = `${a}-${b}`,
-      keyRev = `${b}-${a}`;
-    if (this.cache.has(key)) return this.cache.get(key)!;
-    if (this.cache.has(keyRev)) return -this.cache.get(keyRev)!;
+    const key = this.key(a, b),
+      keyRev = this.key(b, a);
+    if (cache.has(key)) return cache.get(key)!;
+    if (cache.has(keyRev)) return -cache.get(keyRev)!;
+    if (!rawCache.has(key) && rawCache.has(keyRev)) return -(await this.compare(b, a));
 
     const output = await this.rawCompare(a, b),
       cmp = output[0] - output[1];
-    this.cache.set(key, cmp);
+    cache.set(key, cmp);
     return cmp;
   }
 }
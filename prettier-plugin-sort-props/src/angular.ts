@@ -0,0 +1,27 @@
+import splitIdentifier, { type SplitString } from './split-identifier';
+
+const BINDINGS: [RegExp, string][] = [
+  [/^\[\((.*)\)\]$/, 'bindon-'],
+  [/^\[(.*)\]$/, 'bind-'],
+  [/^\((.*)\)$/, 'on-'],
+  [/^\*(.*)$/, 'structural-'],
+  [/^#(.*)$/, 'ref-'],
+];
+
+/**
+ * Split an Angular attribute name into words. Binding syntax is replaced with a prefix word, so `[prop]` becomes
+ * `bind prop`, `(event)` becomes `on event`, `[(ngModel)]` becomes `bindon ng model`, `*ngIf` becomes
+ * `structural ng if` and `#ref` becomes `ref ref`. Animation triggers (`@trigger`) become `animate trigger`.
+ * @param name The attribute name
+ * @returns The split attribute name
+ */
+export default function splitAngularAttribute(name: string): SplitString {
+  for (const [regex, prefix] of BINDINGS) {
+    const match = regex.exec(name);
+    if (match) {
+      name = prefix + match[1];
+      break;
+    }
+  }
+  return splitIdentifier(name.replace(/@/g, 'animate-'));
+}
@@ -2,16 +2,32 @@ interface JSXIdentifier {
   type: 'JSXIdentifier';
   name: string;
 }
+interface JSXNamespacedName {
+  type: 'JSXNamespacedName';
+  namespace: JSXIdentifier;
+  name: JSXIdentifier;
+}
+interface Expression {
+  type: string;
+}
 export interface JSXAttribute {
   type: 'JSXAttribute';
-  name: JSXIdentifier;
+  name: JSXIdentifier | JSXNamespacedName;
+  value: Expression | null;
 }
 interface JSXSpreadAttribute {
   type: 'JSXSpreadAttribute';
 }
 export type JSXAttributeLike = JSXAttribute | JSXSpreadAttribute;
+interface JSXMemberExpression {
+  type: 'JSXMemberExpression';
+  object: JSXIdentifier | JSXMemberExpression;
+  property: JSXIdentifier;
+}
+type JSXElementName = JSXIdentifier | JSXNamespacedName | JSXMemberExpression;
 interface JSXOpeningElement {
   type: 'JSXOpeningElement';
+  name: JSXElementName;
   attributes: JSXAttributeLike[];
 }
 export interface JSXElement {
@@ -19,3 +35,73 @@ export interface JSXElement {
   openingElement: JSXOpeningElement;
 }
 export type AST = JSXElement;
+
+function getJSXName(name: JSXElementName): string {
+  if (name.type === 'JSXNamespacedName') return `${name.namespace.name}:${name.name.name}`;
+  if (name.type === 'JSXMemberExpression') return `${getJSXName(name.object)}.${name.property.name}`;
+  return name.name;
+}
+
+/**
+ * Get the name of a JSX attribute. Namespaced names (`xlink:href`) are joined with a colon.
+ */
+export function getJSXAttributeName({ name }: JSXAttribute): string {
+  return getJSXName(name);
+}
+
+/**
+ * Get the name of a JSX element. Member expressions (`Form.Field`) are joined with a dot.
+ */
+export function getJSXElementName({ openingElement }: JSXElement): string {
+  return getJSXName(openingElement.name);
+}
+
+export interface HTMLAttribute {
+  type: 'attribute';
+  name: string;
+}
+interface HTMLRoot {
+  type: 'root';
+  children: HTMLNode[];
+}
+export interface HTMLElement {
+  type: 'element';
+  name: string;
+  attrs: HTMLAttribute[];
+  children: HTMLNode[];
+}
+interface HTMLLeafNode {
+  type: 'text' | 'comment' | 'cdata' | 'docType' | 'interpolation';
+  value?: string;
+}
+export type HTMLNode = HTMLRoot | HTMLElement | HTMLLeafNode;
+
+export interface SvelteAttribute {
+  type: string;
+  name?: string;
+  intro?: boolean;
+  outro?: boolean;
+}
+export interface SvelteElement {
+  type: string;
+  name: string;
+  attributes: SvelteAttribute[];
+  data?: string; // comments and text
+}
+export interface SvelteRoot {
+  fragment?: object; // svelte 5
+  html?: object; // svelte 4
+}
+
+export interface AstroAttribute {
+  type: 'attribute';
+  kind: 'quoted' | 'empty' | 'expression' | 'spread' | 'shorthand' | 'template-literal';
+  name: string;
+}
+export interface AstroNode {
+  type: string;
+  name?: string;
+  attributes?: AstroAttribute[];
+  children?: AstroNode[];
+  value?: string; // comments and text
+}
@@ -0,0 +1,36 @@
+import { build } from 'esbuild';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { expect, test } from 'vitest';
+
+test('the plugin only imports Node.js built-ins lazily', async () => {
+  const { metafile } = await build({
+    entryPoints: [path.join(import.meta.dirname, 'index.ts')],
+    bundle: true,
+    write: false,
+    metafile: true,
+    format: 'esm',
+    platform: 'browser',
+    external: ['node:*', 'prettier', 'prettier/*', 'onnxruntime-node'],
+    logLevel: 'silent',
+  });
+
+  // the modules which are loaded with the plugin, not by the dynamic imports
+  const loaded = new Set<string>(),
+    pending = [path.relative(process.cwd(), path.join(import.meta.dirname, 'index.ts'))],
+    nodeImports = Array<string>();
+  for (let file; (file = pending.pop()); ) {
+    if (loaded.has(file)) continue;
+    loaded.add(file);
+    for (const { path: imported, kind, external } of metafile.inputs[file].imports) {
+      if (kind !== 'import-statement') continue;
+      if (imported.startsWith('node:')) nodeImports.push(`${file} imports ${imported}`);
+      else if (!external) pending.push(imported);
+    }
+  }
+
+  expect(nodeImports).toEqual([]);
+  for (const file of loaded) {
+    expect(await fs.readFile(file, 'utf8'), file).not.toMatch(/import\.meta\.dirname|\bprocess\.\w/);
+  }
+});
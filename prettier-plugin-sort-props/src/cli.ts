@@ -1,11 +1,17 @@
 #!/usr/bin/env node
 import fs from 'node:fs';
 import path from 'node:path';
+import { pathToFileURL } from 'node:url';
 import util from 'node:util';
+import prettier from 'prettier';
 import { parsers as typescript } from 'prettier/plugins/typescript';
-import { AST } from './ast';
-import { fasTopoSort } from './graph';
+import { AST, getJSXAttributeName, getJSXElementName } from './ast';
+import { CACHE_DIR } from './disk-cache';
+import { fasTopoSort, matchesPattern, parsePattern } from './graph';
+import PreferenceSorter from './preference-sorter';
+import resolveFile from './resolve-file';
 import splitIdentifier, { SplitString } from './split-identifier';
+import validateOptions from './validate';
 
 function prefixToWildcard(s: SplitString): SplitString {
   if (s.startsWith('data ')) return 'data *' as SplitString;
@@ -45,8 +51,16 @@ const {
   },
   allowPositionals: true,
 });
-if (positionals[0] !== 'extract-order') {
+const command = positionals[0];
+if (command === 'clear-cache') {
+  fs.rmSync(CACHE_DIR, { recursive: true, force: true });
+  console.log(`Removed ${CACHE_DIR}`);
+  process.exit(0);
+}
+if (command !== 'extract-order' && command !== 'doctor') {
   console.error(`Usage: prettier-plugin-sort-props extract-order [<file|dir|glob>...] [--exclude <glob>]
+       prettier-plugin-sort-props doctor [<file|dir|glob>...] [--exclude <glob>]
+       prettier-plugin-sort-props clear-cache
 Refer to the docs for more info.`);
   process.exit(1);
 }
@@ -55,7 +69,11 @@ if (paths.length === 0) {
   paths.push('**/*.tsx', '**/*.jsx');
 }
 
-const propLists = Array<SplitString[]>();
+interface PropList {
+  element: string;
+  names: string[];
+}
+const propLists = Array<PropList>();
 function walkAST(ast: AST) {
   if (!ast) return;
   if (typeof ast !== 'object') return;
@@ -68,17 +86,18 @@ function walkAST(ast: AST) {
 
   if (ast.type === 'JSXElement') {
     const { attributes } = ast.openingElement;
-    const group = Array<SplitString>();
+    const element = getJSXElementName(ast);
+    const group = Array<string>();
     function addGroup() {
       if (group.length) {
-        propLists.push(group.slice());
+        propLists.push({ element, names: group.slice() });
         group.length = 0;
       }
     }
 
     for (const prop of attributes) {
       if (prop.type === 'JSXAttribute') {
-        group.push(splitIdentifier(prop.name.name));
+        group.push(getJSXAttributeName(prop));
       } else if (prop.type === 'JSXSpreadAttribute') {
         addGroup();
       } else {
@@ -94,20 +113,142 @@ function walkAST(ast: AST) {
 }
 
 const cwd = process.cwd();
+let fileCount = 0;
 for (const p of paths) {
   for (const f of fs.globSync(p, { exclude })) {
     walkAST(typescript.typescript.parse(fs.readFileSync(path.join(cwd, f), 'utf8'), {} as any));
+    ++fileCount;
+  }
+}
+
+async function extractOrder() {
+  const weights = new Map2D();
+  for (const { names } of propLists) {
+    const props = names.map(splitIdentifier);
+    for (let i = 0, l = props.length; i < l; ++i) {
+      for (let j = i + 1; j < l; ++j) {
+        weights.inc(props[i], props[j]);
+      }
+    }
+  }
+
+  console.log('Rearrange the following props, if necessary, and add them to your prettier config:');
+  console.log('"sortPropsCustomOrder":', JSON.stringify(await weights.sortKeys(), null, 2));
+}
+
+/**
+ * Find the plugins listed after this plugin which override its parsers. Prettier only uses the parser of the last
+ * plugin, so props are not sorted with these parsers.
+ * @param plugins The plugins in the prettier config
+ * @param parsers The parsers of this plugin
+ * @param filepath The path used to find the prettier config, which plugin paths are relative to
+ * @returns The problems
+ */
+async function findShadowingPlugins(
+  plugins: (string | prettier.Plugin)[],
+  parsers: string[],
+  filepath: string,
+): Promise<string[]> {
+  const ownDir = path.dirname(import.meta.dirname) + path.sep; // the package root, as this file is in dist
+  const loaded = await Promise.all(
+    plugins.map(async plugin => {
+      if (typeof plugin !== 'string') return { name: 'a plugin object', own: false, plugin };
+      try {
+        const resolved = await resolveFile(plugin, filepath);
+        if (resolved.startsWith(ownDir)) return { name: plugin, own: true };
+        const module = await import(pathToFileURL(resolved).href);
+        return { name: plugin, own: false, plugin: (module.default ?? module) as prettier.Plugin };
+      } catch {
+        return { name: plugin, own: plugin === 'prettier-plugin-sort-props' }; // Prettier reports the other plugins
+      }
+    }),
+  );
+
+  const own = loaded.findLastIndex(plugin => plugin.own);
+  if (own < 0) return [];
+  return loaded.slice(own + 1).flatMap(({ name, plugin }) => {
+    const shadowed = parsers.filter(parser => plugin?.parsers?.[parser]);
+    return shadowed.length
+      ? [
+          `"${name}" is listed after prettier-plugin-sort-props in "plugins" and overrides the ${shadowed.map(parser => `"${parser}"`).join(', ')} parsers, so props are not sorted with them. List prettier-plugin-sort-props last.`,
+        ]
+      : [];
+  });
+}
+
+function printConflicts(conflicts: Map<string, number>, title: string) {
+  if (!conflicts.size) return;
+  console.log(title);
+  for (const [conflict, count] of Array.from(conflicts).sort((a, b) => b[1] - a[1])) {
+    console.log(`  ${conflict} (${count} times)`);
   }
 }
 
-const weights = new Map2D();
-for (const props of propLists) {
-  for (let i = 0, l = props.length; i < l; ++i) {
-    for (let j = i + 1; j < l; ++j) {
-      weights.inc(props[i], props[j]);
+/**
+ * Check the options in the prettier config for mistakes, patterns which don't match any prop, and preferences which are
+ * ignored because they conflict with preferences of higher priority.
+ */
+async function doctor(): Promise<boolean> {
+  const { default: plugin, getSorterOptions } = await import('./index'); // loaded lazily, since it loads every parser
+  const filepath = path.join(cwd, 'index.tsx');
+  const defaults = Object.fromEntries(
+    Object.entries(plugin.options).map(([name, option]) => [
+      name,
+      Array.isArray(option.default) ? option.default[0].value : option.default,
+    ]),
+  );
+  const config = await prettier.resolveConfig(filepath);
+  const options = await getSorterOptions({ ...defaults, ...config, filepath });
+
+  const problems = [
+    ...validateOptions(options),
+    ...(await findShadowingPlugins(config?.plugins ?? [], Object.keys(plugin.parsers), filepath)),
+  ];
+  let sorter: PreferenceSorter | undefined;
+  try {
+    sorter = await PreferenceSorter.create({ ...options, useAI: 'no', tieBreaker: 'ai' }); // only the rules matter
+  } catch (e) {
+    const { message } = e as Error;
+    if (!problems.some(problem => problem.startsWith(message))) problems.push(message); // most are found above
+  }
+  console.log(problems.length ? 'Problems in the options:' : 'No problems in the options.');
+  for (const problem of problems) console.log(`  ${problem}`);
+  if (!sorter) return false;
+
+  const patterns = options.customOrder.map(entry => [entry, parsePattern(entry)] as const);
+  const matched = new Set<string>();
+  // conflicts with the predefined order and the presets are expected, overriding them is what the other rules are for
+  const conflicts = new Map<string, number>(),
+    overridden = new Map<string, number>();
+  for (const { element, names } of propLists) {
+    const nameMap = new Map(names.map(name => [splitIdentifier(name), name]));
+    for (const [entry, pattern] of patterns) {
+      if (Array.from(nameMap).some(([node, name]) => matchesPattern(pattern, node, name))) matched.add(entry);
     }
+    await sorter.sort(Array.from(nameMap.keys()), {
+      element,
+      names: nameMap,
+      onConflict: ({ rule, before, after }) => {
+        const key = `${rule} puts "${before}" before "${after}"`,
+          counts = rule === 'predefined order' || rule.startsWith('sortPropsPreset') ? overridden : conflicts;
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      },
+    });
+  }
+
+  console.log(`\nChecked ${propLists.length} prop lists in ${fileCount} files.`);
+  const unmatched = options.customOrder.filter(entry => !matched.has(entry));
+  if (unmatched.length) {
+    console.log('Entries of sortPropsCustomOrder which never match, check them for typos:');
+    for (const entry of unmatched) console.log(`  "${entry}"`);
   }
+  printConflicts(
+    conflicts,
+    'Preferences which are ignored, because a rule with higher priority puts the props the other way:',
+  );
+  printConflicts(overridden, 'Info: parts of the predefined order and presets which your options override:');
+  return !problems.length && !unmatched.length && !conflicts.size;
 }
 
-console.log('Rearrange the following props, if necessary, and add them to your prettier config:');
-console.log('"sortPropsCustomOrder":', JSON.stringify(await weights.sortKeys(), null, 2));
+if (command === 'extract-order') await extractOrder();
+else if (!(await doctor())) process.exit(1);
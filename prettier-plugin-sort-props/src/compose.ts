@@ -0,0 +1,60 @@
+import prettier from 'prettier';
+
+type ParserOrInit = prettier.Parser | (() => prettier.Parser | Promise<prettier.Parser>);
+
+const COMPOSED = Symbol('prettier-plugin-sort-props');
+
+function isComposed(parser: ParserOrInit | undefined): boolean {
+  return !!parser && COMPOSED in parser;
+}
+
+/**
+ * Find the parser with the given name that was registered before this plugin. Plugins listed later take precedence,
+ * just like in Prettier.
+ */
+async function findParser(name: string, options: prettier.ParserOptions): Promise<prettier.Parser | undefined> {
+  const plugins = options.plugins as prettier.Plugin[];
+  let i = plugins.length;
+  while (--i >= 0 && !isComposed(plugins[i].parsers?.[name]));
+  if (i < 0) i = plugins.length; // not registered by name, e.g. when called directly
+
+  while (--i >= 0) {
+    const parser = plugins[i].parsers?.[name] as ParserOrInit | undefined;
+    if (typeof parser === 'function') return await parser();
+    if (parser && !isComposed(parser)) return parser;
+  }
+}
+
+/**
+ * Create a parser that chains to the parser with the same name registered before this plugin, like the ones from
+ * `prettier-plugin-svelte` or `prettier-plugin-tailwindcss`. The other parser is looked up when a file is parsed.
+ * @param name The parser name
+ * @param base The parser to use if no other plugin provides one. Only the `astFormat` (needed by Prettier before
+ * parsing) is required if another plugin must provide the parser.
+ * @returns The chained parser
+ */
+export default function composeParser(
+  name: string,
+  base: Pick<prettier.Parser, 'astFormat'> & Partial<prettier.Parser>,
+): prettier.Parser {
+  let parser = base.parse ? (base as prettier.Parser) : undefined;
+
+  return {
+    ...base,
+    [COMPOSED]: true,
+    parse: async (text, options) => {
+      parser = (await findParser(name, options)) ?? (base.parse ? (base as prettier.Parser) : undefined);
+      if (!parser) {
+        throw new Error(
+          `Couldn't find the "${name}" parser. Add the plugin providing it before prettier-plugin-sort-props.`,
+        );
+      }
+
+      // the other parser is only known now, so it is preprocessed here instead of in `preprocess`
+      if (parser.preprocess) options.originalText = text = await parser.preprocess(text, options);
+      return await parser.parse(text, options);
+    },
+    locStart: node => parser!.locStart(node),
+    locEnd: node => parser!.locEnd(node),
+  } as prettier.Parser;
+}
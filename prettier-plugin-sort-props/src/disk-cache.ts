@@ -0,0 +1,85 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { threadId } from 'node:worker_threads';
+
+export const CACHE_DIR = path.join(process.cwd(), 'node_modules', '.cache', 'prettier-plugin-sort-props');
+const MAX_ENTRIES = 200_000;
+const FLUSH_EVERY = 1000;
+
+type Entries = Record<string, [number, number]>;
+
+const isEntry = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && value.every(Number.isFinite);
+
+/**
+ * Read the entries of a cache file. Entries which are not pairs of numbers are dropped, e.g. if the file was edited.
+ */
+function readEntries(file: string): Entries {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    return {}; // missing or corrupt
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+  return Object.fromEntries(Object.entries(parsed).filter(([, value]) => isEntry(value)));
+}
+
+/**
+ * A cache of the raw model outputs, stored in `node_modules/.cache/prettier-plugin-sort-props`. There is one file per
+ * model, named by its ID, which is made of the version and the hash of the model. New entries are written every 1000
+ * entries and when the process exits.
+ *
+ * Each write merges the file with the new entries, and replaces it atomically, so parallel processes don't corrupt the
+ * file. Only the newest 200,000 entries are kept.
+ */
+export default class DiskCache {
+  private pending: Entries = {};
+  private pendingCount = 0;
+
+  private constructor(
+    private file: string,
+    private entries: Entries,
+  ) {
+    process.on('exit', () => this.flush());
+  }
+
+  static open(modelId: string): DiskCache {
+    const file = path.join(CACHE_DIR, `${modelId.replace(/[^\w.-]/g, '_')}.json`);
+    return new DiskCache(file, readEntries(file));
+  }
+
+  get(key: string): [number, number] | undefined {
+    return Object.hasOwn(this.entries, key) ? this.entries[key] : undefined;
+  }
+
+  set(key: string, value: [number, number]) {
+    this.entries[key] = this.pending[key] = value;
+    if (++this.pendingCount >= FLUSH_EVERY) this.flush();
+  }
+
+  /**
+   * Write the new entries to the file.
+   */
+  flush() {
+    if (!this.pendingCount) return;
+
+    const entries = { ...readEntries(this.file), ...this.pending }; // keep the entries written by other processes
+    const keys = Object.keys(entries);
+    const kept =
+      keys.length > MAX_ENTRIES
+        ? Object.fromEntries(keys.slice(-MAX_ENTRIES).map(key => [key, entries[key]]))
+        : entries;
+
+    const tmp = `${this.file}.${process.pid}-${threadId}.tmp`; // Prettier may run in several worker threads
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(tmp, JSON.stringify(kept));
+      fs.renameSync(tmp, this.file);
+    } catch {
+      fs.rmSync(tmp, { force: true }); // the cache is optional, e.g. node_modules may be read-only
+    }
+    this.pending = {};
+    this.pendingCount = 0;
+  }
+}
@@ -0,0 +1,60 @@
+import { compileRegex, compileWildcard, isRegexPattern, parsePattern } from './graph';
+import { type SplitString } from './split-identifier';
+
+export interface ElementOrder {
+  matches: (element: string) => boolean;
+  order: SplitString[];
+}
+
+/**
+ * Create a matcher for an element pattern, along with its specificity (lower is more specific).
+ */
+function compilePattern(pattern: string): [matches: (element: string) => boolean, specificity: number] {
+  if (pattern === '@intrinsic') return [element => /^[a-z]/.test(element) && !element.includes('.'), 3];
+  if (pattern === '@component') return [element => /^[A-Z]/.test(element) || element.includes('.'), 3];
+
+  if (isRegexPattern(pattern)) {
+    const re = compileRegex(pattern);
+    return [element => re.test(element), 2];
+  }
+
+  if (pattern.includes('*')) {
+    const re = compileWildcard(pattern);
+    return [element => re.test(element), 1];
+  }
+
+  return [element => element === pattern, 0];
+}
+
+function withOptionName<T>(fn: () => T): T {
+  try {
+    return fn();
+  } catch (e) {
+    throw new Error(`${(e as Error).message} in sortPropsElementOrder`);
+  }
+}
+
+/**
+ * Parse the per element orders. Each element pattern is written in angle brackets, and is followed by the order of its
+ * props, e.g. `["<Route>", "path", "element", "<input>", "type", "name"]`.
+ *
+ * A pattern can be an exact element name (`Route`, `Form.Field`), a wildcard (`Form.*`), a regex (`/^Form/`),
+ * `@intrinsic` for lowercase elements (`div`), or `@component` for capitalized or member elements (`Button`, `a.b`).
+ * @param entries The option entries
+ * @returns The orders, with the most specific patterns first
+ */
+export default function parseElementOrders(entries: string[]): ElementOrder[] {
+  const orders = Array<ElementOrder & { specificity: number }>();
+  for (const entry of entries) {
+    const pattern = /^<(.+)>$/.exec(entry.trim());
+    if (pattern) {
+      const [matches, specificity] = withOptionName(() => compilePattern(pattern[1]));
+      orders.push({ matches, order: [], specificity });
+    } else if (orders.length) {
+      orders[orders.length - 1].order.push(withOptionName(() => parsePattern(entry)));
+    } else {
+      throw new Error(`Expected an element pattern like "<Route>" before "${entry}" in sortPropsElementOrder`);
+    }
+  }
+  return orders.sort((a, b) => a.specificity - b.specificity);
+}
@@ -1,22 +1,115 @@
 import { Comparator, MultiQueue, PriorityQueue } from './queue';
-import { SplitString } from './split-identifier';
+import splitIdentifier, { type SplitString } from './split-identifier';
+
+const compiledPatterns = new Map<string, RegExp | undefined>();
+
+export function isRegexPattern(pattern: string): boolean {
+  return /^\/.+\/[a-z]*$/.test(pattern);
+}
+
+/**
+ * Compile a regex pattern like `/^on[A-Z]/i`. The `g` and `y` flags are removed, so `test` is stateless.
+ */
+export function compileRegex(pattern: string): RegExp {
+  const [, source, flags] = /^\/(.+)\/([a-z]*)$/.exec(pattern)!;
+  try {
+    return new RegExp(source, flags.replace(/[gy]/g, ''));
+  } catch (e) {
+    throw new Error(`Invalid regex pattern "${pattern}": ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Compile a wildcard pattern like `on *`, where `*` matches any characters, to a regex matching the whole string.
+ */
+export function compileWildcard(pattern: string): RegExp {
+  const glob = pattern
+    .split('*')
+    .map(s => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${glob}$`);
+}
+
+function compilePattern(pattern: string): RegExp | undefined {
+  if (!compiledPatterns.has(pattern)) {
+    if (isRegexPattern(pattern)) {
+      compiledPatterns.set(pattern, compileRegex(pattern));
+    } else if (pattern.includes('*')) {
+      compiledPatterns.set(pattern, compileWildcard(pattern));
+    } else {
+      compiledPatterns.set(pattern, undefined);
+    }
+  }
+  return compiledPatterns.get(pattern);
+}
+
+/**
+ * Parse a pattern from an option. Regexes (`/^on[A-Z]/`) are kept as is, anything else is split like a prop name.
+ */
+export function parsePattern(pattern: string): SplitString {
+  pattern = pattern.trim();
+  if (!isRegexPattern(pattern)) return splitIdentifier(pattern);
+
+  compilePattern(pattern); // throws for invalid regexes
+  return pattern as SplitString;
+}
+
+/**
+ * Check if a node matches a pattern. `*` in a pattern matches any characters of the split node, so `on *` matches
+ * every node starting with `on`, `* change` every node ending with `change`, and `on * change` both. A regex pattern
+ * like `/^on[A-Z]/` is tested against the original name of the node. Any other pattern only matches itself.
+ * @param pattern The pattern
+ * @param node The split node
+ * @param name The original name of the node, if known
+ */
+export function matchesPattern(pattern: SplitString, node: SplitString, name: string = node): boolean {
+  const regex = compilePattern(pattern);
+  if (!regex) return node === pattern;
+  return regex.test(isRegexPattern(pattern) ? name : node);
+}
+
+/**
+ * Compare the specificity of two patterns, the more specific one first. Exact names are the most specific, then
+ * wildcards with more literal characters, and then regexes.
+ */
+function compareSpecificity(a: SplitString, b: SplitString): number {
+  const rank = (pattern: SplitString) => (isRegexPattern(pattern) ? 2 : pattern.includes('*') ? 1 : 0);
+  const literals = (pattern: SplitString) => pattern.replaceAll('*', '').length;
+  return rank(a) - rank(b) || literals(b) - literals(a);
+}
 
 export class DAG {
   private g: Map<SplitString, Set<SplitString>>;
 
-  constructor(verts: SplitString[]) {
+  /**
+   * @param verts The nodes
+   * @param names The original name of each node, matched by regex patterns
+   * @param onDrop Called for each edge which is not added because it would form a cycle
+   */
+  constructor(
+    verts: SplitString[],
+    private names?: Map<SplitString, string>,
+    private onDrop?: (u: SplitString, v: SplitString) => void,
+  ) {
     this.g = new Map(verts.map(v => [v, new Set<SplitString>()]));
   }
 
-  private getMatchingNodes(node: SplitString): SplitString[] {
-    if (node.endsWith('*')) {
-      node = node.slice(0, -1) as SplitString;
-      return Array.from(this.g.keys()).filter(k => k.startsWith(node)); //keys().filter is not supported somewhere
+  /**
+   * Find the nodes matched by each pattern. If several patterns match a node, only the most specific one is used, or the
+   * first one if they are equally specific.
+   */
+  private getMatchingNodes(order: SplitString[]): SplitString[][] {
+    const chain = order.map(() => Array<SplitString>());
+    for (const node of this.g.keys()) {
+      let best = -1;
+      for (let i = 0; i < order.length; ++i) {
+        if (!matchesPattern(order[i], node, this.names?.get(node))) continue;
+        if (best < 0 || compareSpecificity(order[i], order[best]) < 0) best = i;
+        if (order[i] === node) break; // nothing is more specific
+      }
+      if (best >= 0) chain[best].push(node);
     }
-
-    if (this.g.has(node)) return [node];
-
-    return [];
+    return chain;
   }
 
   /**
@@ -46,24 +139,32 @@ export class DAG {
   }
 
   /**
-   * Add the edges according to the consecutive order of elements.
+   * Add the edges according to the consecutive order of patterns.
    *
-   * For index i, j, i<j, add a directed edge from order[i] to order[j] if it does not form a cycle. The edge may be
-   * direct or indirect (path).
+   * For index i, j, i<j, add a directed edge from the nodes matching order[i] to the nodes matching order[j] if it does
+   * not form a cycle. The edge may be direct or indirect (path).
    */
   addEdges(order: SplitString[]) {
+    this.addChain(this.getMatchingNodes(order));
+  }
+
+  /**
+   * Add the edges according to the consecutive order of sets of nodes. Every node in a set is ordered before every node
+   * in the later sets, if it does not form a cycle.
+   */
+  addChain(chain: SplitString[][]) {
     let us = Array<SplitString>(),
       i = 0,
-      l = order.length;
+      l = chain.length;
     // find the first node present in the dag
     while (i < l) {
-      us = this.getMatchingNodes(order[i++]);
+      us = chain[i++];
       if (us.length) break;
     }
 
     // find the next node
     while (i < l) {
-      const vs = this.getMatchingNodes(order[i++]);
+      const vs = chain[i++];
       if (!vs.length) continue;
 
       const chainEnds = new Set(us);
@@ -73,6 +174,8 @@ export class DAG {
           if (!hasPaths[j]) {
             this.g.get(us[j])!.add(v);
             chainEnds.delete(us[j]);
+          } else {
+            this.onDrop?.(us[j], v);
           }
         }
       }
@@ -0,0 +1,84 @@
+import { matchesPattern, parsePattern } from './graph';
+import { groups as predefinedGroups } from './order';
+import { type SplitString } from './split-identifier';
+import { type ValueKind } from './value-kind';
+
+interface Group {
+  name: string;
+  members: SplitString[];
+  kinds: ValueKind[];
+}
+
+/**
+ * Parse the custom groups. Each group name is written in square brackets, and is followed by its membership rules: prop
+ * names or wildcards, like in `sortPropsCustomOrder`, or value kinds, like `kind:callback`. For example,
+ * `["[events]", "on *", "kind:callback", "[test]", "data test id"]`.
+ */
+function parseGroups(entries: string[]): Group[] {
+  const groups = Array<Group>();
+  for (const entry of entries) {
+    const name = /^\[(.+)\]$/.exec(entry.trim()),
+      kind = /^kind:(\w+)$/.exec(entry.trim());
+    if (name) {
+      groups.push({ name: name[1], members: [], kinds: [] });
+    } else if (!groups.length) {
+      throw new Error(`Expected a group name like "[events]" before "${entry}" in sortPropsGroups`);
+    } else if (kind) {
+      groups[groups.length - 1].kinds.push(kind[1] as ValueKind);
+    } else {
+      groups[groups.length - 1].members.push(parsePattern(entry));
+    }
+  }
+  return groups;
+}
+
+/**
+ * Splits props into named groups, like `identity`, `layout` or `events`. The custom groups are matched before the
+ * predefined groups. Within each, exact names are matched first, then wildcards and regexes, and then value kinds. Props
+ * which don't match any listed group are in the `other` group, which is last unless listed.
+ */
+export default class Grouper {
+  private groups: Group[][]; // the custom groups, then the predefined groups
+  private order: string[];
+
+  constructor(customGroups: string[], order: string[]) {
+    const listed = new Set(order);
+    const predefined = Array.from(predefinedGroups, ([name, members]) => ({
+      name,
+      members,
+      kinds: Array<ValueKind>(),
+    }));
+    this.groups = [parseGroups(customGroups), predefined].map(groups => groups.filter(({ name }) => listed.has(name)));
+    this.order = listed.has('other') ? order : [...order, 'other'];
+  }
+
+  get enabled(): boolean {
+    return this.order.length > 1;
+  }
+
+  private findGroup(item: SplitString, kind: ValueKind | undefined, name: string | undefined): string {
+    for (const groups of this.groups) {
+      const group =
+        groups.find(({ members }) => members.includes(item)) ??
+        groups.find(({ members }) => members.some(member => matchesPattern(member, item, name))) ??
+        groups.find(({ kinds }) => kind && kinds.includes(kind));
+      if (group) return group.name;
+    }
+    return 'other';
+  }
+
+  /**
+   * Split items into groups.
+   * @param items The items
+   * @param kinds The value kind of each item, if known
+   * @param names The original name of each item, if known
+   * @returns The items of each group, in the group order
+   */
+  group(items: SplitString[], kinds?: Map<SplitString, ValueKind>, names?: Map<SplitString, string>): SplitString[][] {
+    const groups = new Map(this.order.map(name => [name, Array<SplitString>()]));
+    for (const item of items) {
+      groups.get(this.findGroup(item, kinds?.get(item), names?.get(item)))!.push(item);
+    }
+    return Array.from(groups.values());
+  }
+}
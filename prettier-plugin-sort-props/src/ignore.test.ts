@@ -0,0 +1,14 @@
+import { expect, test } from 'vitest';
+import { hasIgnorePragma } from './ignore';
+
+test('the pragma is read from the comments at the top of the file', () => {
+  expect(hasIgnorePragma('/** @sort-props off */\nexport default <div />;')).toBe(true);
+  expect(hasIgnorePragma('#!/usr/bin/env node\n// @generated\n')).toBe(true);
+  expect(hasIgnorePragma('<!-- @sort-props off -->\n<div></div>')).toBe(true);
+  expect(hasIgnorePragma('const a = 1; // @sort-props off')).toBe(false);
+});
+
+test('the pragma is read from the top of an Astro frontmatter', () => {
+  expect(hasIgnorePragma('---\n// @sort-props off\nconst a = 1;\n---\n<div />')).toBe(true);
+  expect(hasIgnorePragma('---\nconst a = 1; // @sort-props off\n---\n<div />')).toBe(false);
+});
@@ -0,0 +1,76 @@
+import { type JSXElement } from './ast';
+
+interface Comment {
+  value: string;
+}
+
+const HEADER = /^(?:\s*---)?(?:\s*(?:\/\*[\s\S]*?\*\/|\/\/.*|<!--[\s\S]*?-->|#!.*))*/;
+
+/**
+ * Check if the file opts out of sorting with a `@sort-props off` pragma, or is generated (`@generated`). Only the
+ * comments at the top of the file are checked, including the start of an Astro frontmatter.
+ */
+export function hasIgnorePragma(text: string): boolean {
+  const header = HEADER.exec(text)![0];
+  return /@sort-props\s+off\b|@generated\b/.test(header);
+}
+
+/**
+ * Check if a comment is a `sort-props-ignore` comment.
+ */
+export function isIgnoreComment({ value }: Comment): boolean {
+  return value.trim() === 'sort-props-ignore';
+}
+
+// the code allowed before a `sort-props-ignore` comment on its line, and between the comment and the element
+const BEFORE_IGNORE = /(?:^|[({=]|\breturn)\s*$/;
+const BETWEEN_IGNORE = /^\s*\}?(?:\s|[({=]|\b(?:return|export)\b|\b(?:const|let|var)\s+[\w$]+)*$/;
+
+/**
+ * Find the JSX elements which should not be sorted. A `sort-props-ignore` comment ignores the first element that starts
+ * after it, along with its subtree. It only applies if nothing but whitespace, `(`, `{`, `=`, `return` or a declaration
+ * like `const name =` separates it from the element, and it doesn't follow other code on its line.
+ * @param ast The AST
+ * @param comments The comments in the AST
+ * @param text The source text
+ * @param locStart The function to get the start of a node
+ * @param locEnd The function to get the end of a node
+ * @returns The ignored elements
+ */
+export function findIgnoredElements(
+  ast: unknown,
+  comments: Comment[],
+  text: string,
+  locStart: (node: any) => number,
+  locEnd: (node: any) => number,
+): Set<JSXElement> {
+  const ignored = new Set<JSXElement>();
+  const ignoreComments = comments.filter(isIgnoreComment);
+  if (!ignoreComments.length) return ignored;
+
+  const elements = Array<JSXElement>();
+  (function collect(node: any) {
+    if (!node || typeof node !== 'object') return;
+    if (node.type === 'JSXElement') elements.push(node);
+    for (const key in node) collect(node[key]);
+  })(ast);
+  elements.sort((a, b) => locStart(a) - locStart(b));
+
+  for (const comment of ignoreComments) {
+    const start = locStart(comment),
+      end = locEnd(comment);
+    if (!BEFORE_IGNORE.test(text.slice(text.lastIndexOf('\n', start - 1) + 1, start))) continue;
+
+    let lo = 0,
+      hi = elements.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (locStart(elements[mid]) < end) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo < elements.length && BETWEEN_IGNORE.test(text.slice(end, locStart(elements[lo])))) {
+      ignored.add(elements[lo]);
+    }
+  }
+  return ignored;
+}
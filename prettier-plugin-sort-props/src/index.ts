@@ -1,30 +1,130 @@
 import prettier from 'prettier';
+import { parsers as acorn } from 'prettier/plugins/acorn';
+import { parsers as babel } from 'prettier/plugins/babel';
+import { parsers as flow } from 'prettier/plugins/flow';
+import { parsers as html } from 'prettier/plugins/html';
+import { parsers as meriyah } from 'prettier/plugins/meriyah';
 import { parsers as typescript } from 'prettier/plugins/typescript';
-import { AST, JSXAttribute, JSXAttributeLike } from './ast';
-import PreferenceSorter, { type UseAIOption } from './preference-sorter';
-import splitIdentifier from './split-identifier';
+import splitAngularAttribute from './angular';
+import {
+  AST,
+  AstroNode,
+  getJSXAttributeName,
+  getJSXElementName,
+  HTMLNode,
+  JSXAttribute,
+  JSXAttributeLike,
+  SvelteElement,
+  SvelteRoot,
+} from './ast';
+import composeParser from './compose';
+import { findIgnoredElements, hasIgnorePragma, isIgnoreComment } from './ignore';
+import { isURL } from './load-file';
+import { type BuiltinOrderOption } from './order';
+import PreferenceSorter, { type SorterOptions, type UseAIOption } from './preference-sorter';
+import isPure from './purity';
+import splitIdentifier, { type SplitString } from './split-identifier';
+import splitSvelteAttribute from './svelte';
+import { type TieBreakerOption } from './tie-breaker';
+import { warnInvalidOptions } from './validate';
+import getValueKind, { type ValueKind, type ValueKindOption } from './value-kind';
+import splitVueAttribute from './vue';
 
-async function sortProps(props: JSXAttributeLike[], sorter: PreferenceSorter) {
-  const sorted = Array<JSXAttributeLike>(),
-    group = Array<JSXAttribute>();
+type DuplicatesOption = 'keep' | 'warn';
+
+interface SortContext {
+  sorter: PreferenceSorter;
+  options: prettier.ParserOptions;
+  /**
+   * The parsed text, which the locations of the nodes refer to.
+   */
+  text: string;
+  ignored?: Set<object>;
+}
+
+interface PropAdapter<T> {
+  /**
+   * Split the name of a prop, or return `undefined` for props which must not be moved, like spreads. The props between
+   * them are sorted separately.
+   */
+  split: (prop: T) => SplitString | undefined;
+  /**
+   * Check if the value of a prop is free of side effects. Impure props keep their relative order, since reordering them
+   * changes the order of side effects.
+   */
+  isPure?: (prop: T) => boolean;
+  /**
+   * Get the kind of the value of a prop.
+   */
+  getKind?: (prop: T, options: prettier.ParserOptions) => ValueKind;
+  /**
+   * Get the name of a prop as written, which is matched by regex patterns. The split name is used if not given.
+   */
+  getName?: (prop: T) => string;
+}
+
+/**
+ * Sort props in place.
+ */
+async function sortProps<T>(
+  props: T[],
+  element: string | undefined,
+  { split, isPure = () => true, getKind, getName }: PropAdapter<T>,
+  ctx: SortContext,
+) {
+  const sorted = Array<T>(),
+    group = Array<[SplitString, T]>();
   async function addGroup() {
     if (group.length) {
-      const keyMap = new Map(group.map(item => [splitIdentifier(item.name.name), item]));
-      const sortedKeys = await sorter.sort(Array.from(keyMap.keys()));
-      sortedKeys.forEach(key => sorted.push(keyMap.get(key)!));
+      const keyMap = new Map<SplitString, T[]>();
+      for (const [key, prop] of group) {
+        const duplicates = keyMap.get(key);
+        if (duplicates) duplicates.push(prop);
+        else keyMap.set(key, [prop]);
+      }
+
+      if (keyMap.size < group.length && ctx.options.sortPropsDuplicates === 'warn') {
+        const duplicates = Array.from(keyMap)
+          .filter(([, props]) => props.length > 1)
+          .map(([key]) => `"${key}"`);
+        console.warn(
+          `[prettier-plugin-sort-props] Duplicate props ${duplicates.join(', ')} in ${ctx.options.filepath ?? 'input'}, not sorting them.`,
+        );
+        group.forEach(([, prop]) => sorted.push(prop));
+      } else {
+        const impure = new Set(group.filter(([, prop]) => !isPure(prop)).map(([key]) => key));
+        const kinds = getKind && new Map(Array.from(keyMap, ([key, props]) => [key, getKind(props[0], ctx.options)]));
+        const lengths =
+          ctx.options.sortPropsTieBreaker === 'line-length'
+            ? new Map(
+                Array.from(keyMap, ([key, props]) => [
+                  key,
+                  ctx.options.locEnd(props[0]) - ctx.options.locStart(props[0]),
+                ]),
+              )
+            : undefined;
+        const names = getName && new Map(Array.from(keyMap, ([key, props]) => [key, getName(props[0])]));
+        const sortedKeys = await ctx.sorter.sort(Array.from(keyMap.keys()), {
+          element,
+          fixed: Array.from(impure),
+          kinds,
+          lengths,
+          names,
+        });
+        sortedKeys.forEach(key => sorted.push(...keyMap.get(key)!)); // duplicates keep their order, so the last one wins
+      }
 
       group.length = 0;
     }
   }
 
   for (const prop of props) {
-    if (prop.type === 'JSXAttribute') {
-      group.push(prop);
-    } else if (prop.type === 'JSXSpreadAttribute') {
+    const key = split(prop);
+    if (key === undefined) {
       await addGroup();
       sorted.push(prop);
     } else {
-      throw new Error('Unknown prop type ' + (prop as any).type);
+      group.push([key, prop]);
     }
   }
   await addGroup();
@@ -33,24 +133,263 @@ async function sortProps(props: JSXAttributeLike[], sorter: PreferenceSorter) {
   props.push(...sorted);
 }
 
-async function walkAST(ast: AST, sorter: PreferenceSorter) {
+const jsxAdapter: PropAdapter<JSXAttributeLike> = {
+  split: prop => {
+    if (prop.type === 'JSXAttribute') return splitIdentifier(getJSXAttributeName(prop));
+    if (prop.type === 'JSXSpreadAttribute') return undefined;
+    throw new Error('Unknown prop type ' + (prop as any).type);
+  },
+  isPure: prop => prop.type !== 'JSXAttribute' || isPure(prop.value),
+  getKind: (prop, options) =>
+    getValueKind(prop as JSXAttribute, options.originalText, options.locStart, options.locEnd),
+  getName: prop => getJSXAttributeName(prop as JSXAttribute),
+};
+
+async function walkAST(ast: AST, ctx: SortContext) {
   if (!ast) return;
   if (typeof ast !== 'object') return;
   if (Array.isArray(ast)) {
     for (const item of ast) {
-      await walkAST(item, sorter);
+      await walkAST(item, ctx);
     }
     return;
   }
 
   if (ast.type === 'JSXElement') {
+    if (ctx.ignored?.has(ast)) return;
     const { attributes } = ast.openingElement;
-    await sortProps(attributes, sorter);
+    await sortProps(attributes, getJSXElementName(ast), jsxAdapter, ctx);
+  }
+
+  for (const key in ast) {
+    await walkAST((ast as any)[key], ctx);
+  }
+}
+
+/**
+ * Walk a JS AST. The elements after `sort-props-ignore` comments are skipped.
+ */
+async function walkJSAST(ast: AST & { comments?: { value: string }[] }, ctx: SortContext) {
+  const ignored = findIgnoredElements(ast, ast.comments ?? [], ctx.text, ctx.options.locStart, ctx.options.locEnd);
+  await walkAST(ast, { ...ctx, ignored });
+}
+
+async function walkHTMLAST(node: HTMLNode, split: (name: string) => SplitString | undefined, ctx: SortContext) {
+  if (node.type === 'element') {
+    await sortProps(node.attrs, node.name, { split: attr => split(attr.name), getName: attr => attr.name }, ctx);
+  }
+
+  if ('children' in node) await walkHTMLChildren(node.children, split, ctx);
+}
+
+type SiblingKind = 'ignore' | 'element' | 'whitespace' | 'other';
+
+/**
+ * Walk sibling nodes, skipping the element right after a `sort-props-ignore` comment. Only whitespace may separate
+ * them, any other node, like text or an interpolation, cancels the comment.
+ * @param nodes The siblings
+ * @param kindOf The function to get the kind of a node
+ * @param walk The function to walk a node which is not skipped
+ */
+async function walkSiblings<T>(nodes: T[], kindOf: (node: T) => SiblingKind, walk: (node: T) => Promise<void>) {
+  let ignoreNext = false;
+  for (const node of nodes) {
+    const kind = kindOf(node);
+    if (kind === 'ignore') ignoreNext = true;
+    else if (kind === 'whitespace') continue;
+    else if (kind === 'element' && ignoreNext) ignoreNext = false;
+    else {
+      ignoreNext = false;
+      await walk(node);
+    }
+  }
+}
+
+function getHTMLKind(node: HTMLNode): SiblingKind {
+  if (node.type === 'comment') return isIgnoreComment({ value: node.value ?? '' }) ? 'ignore' : 'other';
+  if (node.type === 'element') return 'element';
+  if (node.type === 'text' && !node.value?.trim()) return 'whitespace';
+  return 'other';
+}
+
+/**
+ * Walk the children of an HTML node. The element after a `sort-props-ignore` comment is skipped.
+ */
+async function walkHTMLChildren(
+  children: HTMLNode[],
+  split: (name: string) => SplitString | undefined,
+  ctx: SortContext,
+) {
+  await walkSiblings(children, getHTMLKind, child => walkHTMLAST(child, split, ctx));
+}
+
+async function walkPlainHTMLAST(root: HTMLNode, ctx: SortContext) {
+  await walkHTMLAST(root, splitIdentifier, ctx);
+}
+
+async function walkAngularAST(root: HTMLNode, ctx: SortContext) {
+  await walkHTMLAST(root, splitAngularAttribute, ctx);
+}
+
+/**
+ * Walk a Vue SFC. Only the elements inside the top level `<template>` blocks are sorted.
+ */
+async function walkVueAST(root: HTMLNode, ctx: SortContext) {
+  if (!('children' in root)) return;
+  for (const block of root.children) {
+    if (block.type === 'element' && block.name === 'template') {
+      await walkHTMLChildren(block.children, splitVueAttribute, ctx);
+    }
+  }
+}
+
+function getSvelteKind(node: SvelteElement): SiblingKind {
+  if (node?.type === 'Comment') return isIgnoreComment({ value: node.data ?? '' }) ? 'ignore' : 'other';
+  if (Array.isArray(node?.attributes)) return 'element';
+  if (node?.type === 'Text' && !node.data?.trim()) return 'whitespace';
+  return 'other';
+}
+
+async function walkSvelteNode(ast: SvelteElement, ctx: SortContext) {
+  if (!ast) return;
+  if (typeof ast !== 'object') return;
+  if (Array.isArray(ast)) {
+    await walkSiblings(ast, getSvelteKind, item => walkSvelteNode(item, ctx)); // the element after an ignore comment
+    return;
+  }
+
+  if (Array.isArray(ast.attributes)) {
+    await sortProps(ast.attributes, ast.name, { split: splitSvelteAttribute, isPure }, ctx);
   }
 
   for (const key in ast) {
-    await walkAST((ast as any)[key], sorter);
+    await walkSvelteNode((ast as any)[key], ctx);
+  }
+}
+
+/**
+ * Walk a Svelte component. Only the markup is walked, the scripts may contain unrelated `attributes` (import
+ * attributes).
+ */
+async function walkSvelteAST(root: SvelteRoot, ctx: SortContext) {
+  await walkSvelteNode((root.fragment ?? root.html) as SvelteElement, ctx);
+}
+
+function getAstroKind(node: AstroNode): SiblingKind {
+  if (node.type === 'comment') return isIgnoreComment({ value: node.value ?? '' }) ? 'ignore' : 'other';
+  if (node.attributes) return 'element';
+  if (node.type === 'text' && !node.value?.trim()) return 'whitespace';
+  return 'other';
+}
+
+/**
+ * Walk an Astro component. The element after a `sort-props-ignore` comment is skipped.
+ */
+async function walkAstroAST(node: AstroNode, ctx: SortContext) {
+  if (node.attributes) {
+    await sortProps(
+      node.attributes,
+      node.name,
+      {
+        split: attr => (attr.kind === 'spread' ? undefined : splitIdentifier(attr.name)),
+        getName: attr => attr.name,
+      },
+      ctx,
+    );
+  }
+
+  if (node.children) await walkSiblings(node.children, getAstroKind, child => walkAstroAST(child, ctx));
+}
+
+/**
+ * Resolve the model path option. URLs are kept as is, as resolving paths needs Node.js.
+ */
+async function resolveModelPath(modelPath: string, filepath: string | undefined): Promise<string> {
+  if (isURL(modelPath)) return modelPath;
+  const { default: resolveFile } = await import('./resolve-file');
+  return await resolveFile(modelPath, filepath);
+}
+
+/**
+ * Get the sorter options from the Prettier options, loading the order file if any. The modules which need Node.js are
+ * only imported for the options which use them, so the plugin can run in browsers.
+ */
+export async function getSorterOptions(options: Partial<prettier.ParserOptions>): Promise<SorterOptions> {
+  return {
+    useAI: options.sortPropsUseAI as UseAIOption,
+    customOrder: [
+      ...(options.sortPropsCustomOrder as string[]),
+      ...(options.sortPropsOrderFile
+        ? await (await import('./order-file')).default(options.sortPropsOrderFile as string, options.filepath)
+        : []),
+    ],
+    elementOrder: options.sortPropsElementOrder as string[],
+    groups: options.sortPropsGroups as string[],
+    groupOrder: options.sortPropsGroupOrder as string[],
+    valueKind: options.sortPropsValueKind as ValueKindOption,
+    valueKindOrder: options.sortPropsValueKindOrder as ValueKind[],
+    pairs: options.sortPropsPairs as string[],
+    detectPairs: options.sortPropsDetectPairs as boolean,
+    tieBreaker: options.sortPropsTieBreaker as TieBreakerOption,
+    builtinOrder: options.sortPropsBuiltinOrder as BuiltinOrderOption,
+    presets: options.sortPropsPreset as string[],
+    persistentCache: options.sortPropsCache as boolean,
+    modelPath: options.sortPropsModelPath
+      ? await resolveModelPath(options.sortPropsModelPath as string, options.filepath)
+      : undefined,
+  };
+}
+
+const sorters = new Map<string, Promise<PreferenceSorter | undefined>>();
+
+/**
+ * Get a sorter for the options. The sorters are cached for the whole process, so the AI model is not loaded for every
+ * file. If the options are invalid, a warning is printed and the props are not sorted.
+ */
+function getSorter(options: SorterOptions): Promise<PreferenceSorter | undefined> {
+  const key = JSON.stringify(options);
+  let sorter = sorters.get(key);
+  if (!sorter) {
+    const problems = warnInvalidOptions(options);
+    sorter = PreferenceSorter.create(options).catch(e => {
+      const { message } = e as Error;
+      console.warn(
+        problems.some(problem => problem.startsWith(message))
+          ? '[prettier-plugin-sort-props] Props are not sorted until the problems above are fixed.'
+          : `[prettier-plugin-sort-props] Props are not sorted: ${message}`,
+      );
+      return undefined;
+    });
+    sorters.set(key, sorter);
   }
+  return sorter;
+}
+
+/**
+ * Wrap a parser so that the props of every element are sorted after parsing. Files with an ignore pragma are only
+ * parsed.
+ * @param parser The original parser
+ * @param walk The function to walk the parsed AST with
+ * @returns The wrapped parser
+ */
+function withSortProps(
+  parser: prettier.Parser,
+  walk: (ast: any, ctx: SortContext) => Promise<void> = walkJSAST,
+): prettier.Parser {
+  return {
+    ...parser,
+    parse: async (text, options) => {
+      if (hasIgnorePragma(text)) return await parser.parse(text, options);
+
+      const sorter = await getSorter(await getSorterOptions(options));
+
+      const parsed = await parser.parse(text, options);
+      if (!sorter) return parsed;
+      // the other parser may have preprocessed the text, see `composeParser`
+      await walk(parsed, { sorter, options, text: options.originalText ?? text });
+      return parsed;
+    },
+  };
 }
 
 export default {
@@ -66,6 +405,30 @@ export default {
       default: 'stable',
       description: "Use AI to sort props which don't match the predefined order",
     } as prettier.ChoiceSupportOption<UseAIOption>,
+    sortPropsCache: {
+      category: 'prop-sort',
+      type: 'boolean',
+      default: false,
+      description: 'Cache the AI results in node_modules/.cache/prettier-plugin-sort-props, to reuse them across runs',
+    },
+    sortPropsModelPath: {
+      category: 'prop-sort',
+      type: 'string',
+      default: '',
+      description: 'An ONNX model to use instead of the bundled one, with its metadata in a .json file next to it',
+    },
+    sortPropsTieBreaker: {
+      category: 'prop-sort',
+      type: 'choice',
+      choices: [
+        { value: 'ai', description: 'Use the sortPropsUseAI option' },
+        { value: 'alphabetical', description: 'Sort props alphabetically by their words' },
+        { value: 'natural', description: 'Sort props alphabetically, comparing numbers by their value' },
+        { value: 'line-length', description: 'Sort props by the length of their source, shortest first' },
+      ],
+      default: 'ai',
+      description: "Strategy for sorting props which aren't ordered by any preference",
+    } as prettier.ChoiceSupportOption<TieBreakerOption>,
     sortPropsCustomOrder: {
       category: 'prop-sort',
       type: 'string',
@@ -73,20 +436,108 @@ export default {
       default: [{ value: [] }],
       description: 'Custom order of props to override the predefined order',
     },
+    sortPropsOrderFile: {
+      category: 'prop-sort',
+      type: 'string',
+      default: '',
+      description: 'A JSON, JSONC or YAML file or a package export with more entries for sortPropsCustomOrder',
+    },
+    sortPropsPreset: {
+      category: 'prop-sort',
+      type: 'string',
+      array: true,
+      default: [{ value: [] }],
+      description:
+        'Orders for common libraries, used after the custom order: react-native, next, styled-system, chakra, mui, radix',
+    },
+    sortPropsBuiltinOrder: {
+      category: 'prop-sort',
+      type: 'choice',
+      choices: [
+        { value: 'default', description: 'Use the whole predefined order' },
+        { value: 'no-css', description: 'Use the predefined order without CSS properties, like margin or color' },
+        { value: 'minimal', description: 'Use the predefined order for keys, refs, ids, test ids and aria props only' },
+        { value: 'none', description: 'Do not use the predefined order' },
+      ],
+      default: 'default',
+      description: 'Which part of the predefined order to use',
+    } as prettier.ChoiceSupportOption<BuiltinOrderOption>,
+    sortPropsElementOrder: {
+      category: 'prop-sort',
+      type: 'string',
+      array: true,
+      default: [{ value: [] }],
+      description: 'Custom order of props for specific elements, each list starts with an element pattern like <Route>',
+    },
+    sortPropsGroupOrder: {
+      category: 'prop-sort',
+      type: 'string',
+      array: true,
+      default: [{ value: [] }],
+      description: 'Order of prop groups, like identity, layout or events; props are sorted by group first',
+    },
+    sortPropsGroups: {
+      category: 'prop-sort',
+      type: 'string',
+      array: true,
+      default: [{ value: [] }],
+      description: 'Custom prop groups, each list starts with a group name like [events]',
+    },
+    sortPropsValueKind: {
+      category: 'prop-sort',
+      type: 'choice',
+      choices: [
+        { value: 'no', description: 'Do not sort props by the kind of their value' },
+        { value: 'primary', description: 'Sort props by the kind of their value first, and then by their name' },
+        { value: 'secondary', description: 'Sort props by their name first, and then by the kind of their value' },
+      ],
+      default: 'no',
+      description: 'Sort props by the kind of their value, like shorthand booleans, literals or callbacks',
+    } as prettier.ChoiceSupportOption<ValueKindOption>,
+    sortPropsValueKindOrder: {
+      category: 'prop-sort',
+      type: 'string',
+      array: true,
+      default: [{ value: ['shorthand', 'literal', 'expression', 'callback', 'multiline'] }],
+      description: 'Order of value kinds: shorthand, literal, expression, callback and multiline',
+    },
+    sortPropsDetectPairs: {
+      category: 'prop-sort',
+      type: 'boolean',
+      default: false,
+      description: 'Keep handlers like onValueChange, setValue and onValue right after their state prop',
+    },
+    sortPropsPairs: {
+      category: 'prop-sort',
+      type: 'string',
+      array: true,
+      default: [{ value: [] }],
+      description: 'Pairs of props to keep together, each written as a state prop followed by its handlers',
+    },
+    sortPropsDuplicates: {
+      category: 'prop-sort',
+      type: 'choice',
+      choices: [
+        { value: 'keep', description: 'Keep duplicate props together, in their original order' },
+        { value: 'warn', description: 'Print a warning and do not sort props with duplicates' },
+      ],
+      default: 'keep',
+      description: 'How to handle duplicate props, or props with the same split name (like onClick and on-click)',
+    } as prettier.ChoiceSupportOption<DuplicatesOption>,
   },
   parsers: {
-    typescript: {
-      ...typescript.typescript,
-      parse: async (text, options) => {
-        const sorter = await PreferenceSorter.create(
-          options.sortPropsUseAI as UseAIOption,
-          options.sortPropsCustomOrder as string[],
-        );
-
-        const parsed: AST = typescript.typescript.parse(text, options);
-        await walkAST(parsed, sorter);
-        return parsed;
-      },
-    },
+    typescript: withSortProps(composeParser('typescript', typescript.typescript)),
+    babel: withSortProps(composeParser('babel', babel.babel)),
+    'babel-flow': withSortProps(composeParser('babel-flow', babel['babel-flow'])),
+    'babel-ts': withSortProps(composeParser('babel-ts', babel['babel-ts'])),
+    flow: withSortProps(composeParser('flow', flow.flow)),
+    acorn: withSortProps(composeParser('acorn', acorn.acorn)),
+    espree: withSortProps(composeParser('espree', acorn.espree)),
+    meriyah: withSortProps(composeParser('meriyah', meriyah.meriyah)),
+    vue: withSortProps(composeParser('vue', html.vue), walkVueAST),
+    html: withSortProps(composeParser('html', html.html), walkPlainHTMLAST),
+    angular: withSortProps(composeParser('angular', html.angular), walkAngularAST),
+    svelte: withSortProps(composeParser('svelte', { astFormat: 'svelte-ast' }), walkSvelteAST),
+    astro: withSortProps(composeParser('astro', { astFormat: 'astro' }), walkAstroAST),
   },
 } satisfies prettier.Plugin;
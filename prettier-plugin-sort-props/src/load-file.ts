@@ -0,0 +1,22 @@
+/**
+ * Check if a location is a URL, like `https://example.com/model.onnx` or `file:///model.onnx`, rather than a path.
+ */
+export function isURL(location: string): boolean {
+  return /^[a-z][a-z\d+.-]+:/i.test(location); // not `C:`
+}
+
+/**
+ * Load a file by its path or URL. Paths and `file:` URLs are read with Node.js, which is imported lazily, and other URLs
+ * are fetched, so that files can also be loaded in browsers.
+ * @param location The path or URL
+ * @returns The contents
+ */
+export default async function loadFile(location: string): Promise<Uint8Array> {
+  if (isURL(location) && !location.startsWith('file:')) {
+    const response = await fetch(location);
+    if (!response.ok) throw new Error(`Cannot fetch ${location}: ${response.status} ${response.statusText}`);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+  const fs = await import('node:fs/promises');
+  return await fs.readFile(isURL(location) ? new URL(location) : location);
+}
@@ -0,0 +1,79 @@
+import loadFile from './load-file';
+
+/**
+ * The metadata of a model, stored next to it with a `.json` extension, like `model.json` for `model.onnx`.
+ */
+export interface ModelMetadata {
+  /**
+   * The version of the model, which is part of the cache keys. Change it whenever the model is retrained.
+   */
+  version: string;
+  /**
+   * The characters of the vocabulary. The token of each character is its index plus 1, as 0 is the padding token.
+   */
+  vocab: string;
+  /**
+   * The token used for characters which are not in the vocabulary, after transliteration. It comes after the tokens of
+   * the vocabulary, so it is never the token of a real character. They are dropped if this is not set, like in the
+   * bundled model.
+   */
+  unknownToken?: number;
+  /**
+   * The number of tokens per identifier.
+   */
+  seqLen: number;
+  /**
+   * The names of the input tensors, for the first and second identifiers.
+   */
+  inputs: [string, string];
+  /**
+   * The names of the output tensors, for the probability that the first identifier comes first, and that the second one
+   * comes first.
+   */
+  outputs: [string, string];
+}
+
+const isName = (name: unknown) => typeof name === 'string' && name.length > 0;
+const isNamePair = (names: unknown) => Array.isArray(names) && names.length === 2 && names.every(isName);
+
+/**
+ * Get the path or URL of the metadata file of a model.
+ */
+export function getMetadataPath(modelPath: string): string {
+  return modelPath.replace(/(\.[^./\\]*)?$/, '.json');
+}
+
+/**
+ * Read and validate the metadata of a model.
+ * @param modelPath The path or URL of the model
+ * @returns The metadata
+ */
+export default async function readMetadata(modelPath: string): Promise<ModelMetadata> {
+  const file = getMetadataPath(modelPath);
+  let metadata: Partial<ModelMetadata>;
+  try {
+    metadata = JSON.parse(new TextDecoder().decode(await loadFile(file)));
+  } catch (e) {
+    throw new Error(`Cannot read the metadata of the model ${modelPath} from ${file}: ${(e as Error).message}`);
+  }
+
+  const problems = Array<string>();
+  if (!isName(metadata.version)) problems.push('"version" must be a non-empty string');
+  if (!isName(metadata.vocab)) problems.push('"vocab" must be a non-empty string');
+  else if (new Set(metadata.vocab).size !== Array.from(metadata.vocab!).length) {
+    problems.push('"vocab" must not repeat characters');
+  }
+  const { vocab, unknownToken } = metadata;
+  if (
+    unknownToken !== undefined &&
+    (!Number.isInteger(unknownToken) || unknownToken <= (typeof vocab === 'string' ? Array.from(vocab).length : 0))
+  ) {
+    problems.push('"unknownToken" must be an integer after the tokens of "vocab"');
+  }
+  if (!Number.isInteger(metadata.seqLen) || metadata.seqLen! < 1) problems.push('"seqLen" must be a positive integer');
+  if (!isNamePair(metadata.inputs)) problems.push('"inputs" must be the names of 2 input tensors');
+  if (!isNamePair(metadata.outputs)) problems.push('"outputs" must be the names of 2 output tensors');
+  if (problems.length) throw new Error(`Invalid model metadata in ${file}: ${problems.join(', ')}`);
+
+  return metadata as ModelMetadata;
+}
@@ -0,0 +1,44 @@
+import { type Backend } from './ai-cmp';
+import { getMetadataPath, type ModelMetadata } from './model-metadata';
+
+/**
+ * Create a backend which runs the model with `onnxruntime-node`. It is imported lazily, so a missing or broken install,
+ * or a browser, can fall back to the TypeScript backend.
+ * @param model The ONNX model
+ * @param metadata The metadata of the model
+ * @param modelPath The path or URL of the model, for the errors
+ * @returns The backend, or `undefined` if `onnxruntime-node` cannot be loaded
+ */
+export default async function createONNXBackend(
+  model: Uint8Array,
+  { seqLen, inputs, outputs }: ModelMetadata,
+  modelPath: string,
+): Promise<Backend | undefined> {
+  let ort: typeof import('onnxruntime-node');
+  try {
+    ort = (await import('onnxruntime-node')).default;
+  } catch {
+    return undefined;
+  }
+  const session = await ort.InferenceSession.create(model);
+
+  const missing = [
+    ...inputs.filter(name => !session.inputNames.includes(name)),
+    ...outputs.filter(name => !session.outputNames.includes(name)),
+  ];
+  if (missing.length) {
+    throw new Error(
+      `The model ${modelPath} has no tensors named ${missing.map(name => `"${name}"`).join(', ')}, which are declared in ${getMetadataPath(modelPath)}`,
+    );
+  }
+
+  return {
+    async run(input1, input2, batchSize) {
+      const result = await session.run({
+        [inputs[0]]: new ort.Tensor(input1, [batchSize, seqLen]),
+        [inputs[1]]: new ort.Tensor(input2, [batchSize, seqLen]),
+      });
+      return [result[outputs[0]].data as Float32Array, result[outputs[1]].data as Float32Array];
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { expect, test } from 'vitest';
+import loadOrderFile from './order-file';
+
+test.each(['order.json', 'order.yaml', 'order.mjs'])('%s is read again when it is modified', async name => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sort-props-')),
+    file = path.join(dir, name);
+  const write = async (order: string[], time: number) => {
+    const json = JSON.stringify(order);
+    await fs.writeFile(file, name.endsWith('.mjs') ? `export default ${json};` : json);
+    await fs.utimes(file, time, time);
+  };
+  try {
+    await write(['id', 'name'], 1);
+    expect(await loadOrderFile(file, undefined)).toEqual(['id', 'name']);
+    await write(['name', 'id'], 2);
+    expect(await loadOrderFile(file, undefined)).toEqual(['name', 'id']);
+  } finally {
+    await fs.rm(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,52 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import YAML from 'yaml';
+import resolveFile from './resolve-file';
+
+const cache = new Map<string, { mtime: number; order: string[] }>();
+
+/**
+ * Remove the comments and trailing commas from JSONC, keeping the strings as is.
+ */
+function stripJSONC(text: string): string {
+  return text
+    .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_, str) => str ?? '')
+    .replace(/("(?:\\.|[^"\\])*")|,(?=\s*[\]}])/g, (_, str) => str ?? '');
+}
+
+async function readOrder(file: string, mtime: number): Promise<unknown> {
+  switch (path.extname(file)) {
+    case '.json':
+    case '.jsonc':
+      return JSON.parse(stripJSONC(await fs.readFile(file, 'utf8')));
+    case '.yaml':
+    case '.yml':
+      return YAML.parse(await fs.readFile(file, 'utf8'));
+    default:
+      // modules are cached by URL, the query loads the modified file, but not the modules it imports
+      return (await import(`${pathToFileURL(file).href}?mtime=${mtime}`)).default;
+  }
+}
+
+/**
+ * Load a custom order from a JSON, JSONC or YAML file, or a JS module with a default export. The file must contain an
+ * array of entries, in the same format as `sortPropsCustomOrder`. Paths are resolved with `resolveFile`. Files are
+ * cached until they are modified.
+ * @param file The path or package export
+ * @param filepath The path of the formatted file, used to find the Prettier config file
+ * @returns The order
+ */
+export default async function loadOrderFile(file: string, filepath: string | undefined): Promise<string[]> {
+  const resolved = await resolveFile(file, filepath);
+  const { mtimeMs } = await fs.stat(resolved);
+  const cached = cache.get(resolved);
+  if (cached?.mtime === mtimeMs) return cached.order;
+
+  const order = await readOrder(resolved, mtimeMs);
+  if (!Array.isArray(order) || order.some(entry => typeof entry !== 'string')) {
+    throw new Error(`Expected an array of strings in ${resolved}, the sortPropsOrderFile`);
+  }
+  cache.set(resolved, { mtime: mtimeMs, order });
+  return order;
+}
@@ -0,0 +1,74 @@
+import splitIdentifier, { type SplitString } from './split-identifier';
+
+/**
+ * Parse the custom pairs. Each entry is a state prop followed by its handlers, separated by spaces, like
+ * `"value onInput"`.
+ */
+export function parsePairs(entries: string[]): Map<SplitString, SplitString[]> {
+  const pairs = new Map<SplitString, SplitString[]>();
+  for (const entry of entries) {
+    const [state, ...handlers] = entry.trim().split(/\s+/).map(splitIdentifier);
+    if (!handlers.length) {
+      throw new Error(
+        `Expected a prop followed by its handlers, like "value onInput", but got "${entry}" in sortPropsPairs`,
+      );
+    }
+    pairs.set(state, [...(pairs.get(state) ?? []), ...handlers]);
+  }
+  return pairs;
+}
+
+/**
+ * The handlers of a state prop `x`: `onXChange`, `setX` and `onX`.
+ */
+function detectHandlers(state: SplitString): SplitString[] {
+  return [`on ${state} change`, `set ${state}`, `on ${state}`] as SplitString[];
+}
+
+/**
+ * Finds state props and their handlers, like `value` and `onValueChange`, so they can be kept together. The custom
+ * pairs are matched before the detected ones, and each handler belongs to a single state prop.
+ */
+export default class PairFinder {
+  private custom: Map<SplitString, SplitString[]>;
+
+  constructor(
+    customPairs: string[],
+    private detect: boolean,
+  ) {
+    this.custom = parsePairs(customPairs);
+  }
+
+  get enabled(): boolean {
+    return this.detect || this.custom.size > 0;
+  }
+
+  /**
+   * Find the pairs among the items.
+   * @param items The items
+   * @param fixed Items whose relative order must not change, which can't be moved next to a state prop
+   * @returns The handlers of each state prop, in the order they should follow it
+   */
+  find(items: SplitString[], fixed: SplitString[] = []): Map<SplitString, SplitString[]> {
+    const present = new Set(items),
+      unmovable = new Set(fixed),
+      paired = new Set<SplitString>();
+    const pairs = new Map<SplitString, SplitString[]>();
+
+    const addPairs = (getHandlers: (state: SplitString) => SplitString[] | undefined) => {
+      for (const state of items) {
+        if (paired.has(state)) continue; // already a handler
+
+        const handlers = (getHandlers(state) ?? []).filter(
+          handler => present.has(handler) && !unmovable.has(handler) && !paired.has(handler) && !pairs.has(handler),
+        );
+        for (const handler of handlers) paired.add(handler);
+        if (handlers.length) pairs.set(state, [...(pairs.get(state) ?? []), ...handlers]);
+      }
+    };
+
+    addPairs(state => this.custom.get(state));
+    if (this.detect) addPairs(detectHandlers);
+    return pairs;
+  }
+}
@@ -1,52 +1,217 @@
 import AIComparator from './ai-cmp';
 import bradleyTerry from './bradley-terry';
-import { DAG } from './graph';
-import order from './order';
-import splitIdentifier, { type SplitString } from './split-identifier';
+import parseElementOrders, { type ElementOrder } from './element-order';
+import { DAG, parsePattern } from './graph';
+import Grouper from './groups';
+import getBuiltinOrder, { type BuiltinOrderOption } from './order';
+import PairFinder from './pairs';
+import getPresetOrders from './presets';
+import { type SplitString } from './split-identifier';
+import createTieBreaker, { type TieBreakerOption } from './tie-breaker';
+import { type ValueKind, type ValueKindOption } from './value-kind';
 
 export type UseAIOption = 'no' | 'yes' | 'stable';
 
+export interface SorterOptions {
+  useAI: UseAIOption;
+  customOrder: string[];
+  elementOrder?: string[];
+  groups?: string[];
+  groupOrder?: string[];
+  valueKind?: ValueKindOption;
+  valueKindOrder?: ValueKind[];
+  pairs?: string[];
+  detectPairs?: boolean;
+  tieBreaker?: TieBreakerOption;
+  builtinOrder?: BuiltinOrderOption;
+  presets?: string[];
+  persistentCache?: boolean;
+  modelPath?: string;
+}
+
+export interface SortHints {
+  /**
+   * The name of the element the items belong to. The orders for matching elements take priority over the custom and
+   * predefined orders.
+   */
+  element?: string;
+  /**
+   * Items whose relative order must not change, like props with side effects. This takes priority over every preference.
+   */
+  fixed?: SplitString[];
+  /**
+   * The value kind of each item, used for grouping and sorting by value kind.
+   */
+  kinds?: Map<SplitString, ValueKind>;
+  /**
+   * The source length of each item, used by the `line-length` tie-breaker.
+   */
+  lengths?: Map<SplitString, number>;
+  /**
+   * The original name of each item, matched by regex patterns.
+   */
+  names?: Map<SplitString, string>;
+  /**
+   * Called for each preference which is not used because it conflicts with a preference of higher priority.
+   */
+  onConflict?: (conflict: Conflict) => void;
+}
+
+export interface Conflict {
+  /**
+   * The option (or other rule) with the preference that is not used.
+   */
+  rule: string;
+  before: SplitString;
+  after: SplitString;
+}
+
+/**
+ * Get every pair of items, in the order `(0, 1), (0, 2), ..., (1, 2), ...`.
+ */
+function allPairs(arr: SplitString[]): [SplitString, SplitString][] {
+  const pairs = Array<[SplitString, SplitString]>();
+  for (let i = 0; i < arr.length; ++i) {
+    for (let j = i + 1; j < arr.length; ++j) {
+      pairs.push([arr[i], arr[j]]);
+    }
+  }
+  return pairs;
+}
+
 /**
  * A sorter using a list of preference orderings. The array is sorted in the order of the first preference. Each of the
  * next preferences are used for sorting the items that were not present in the previous preferences.
+ *
+ * If groups are used, the items are ordered by their group first, and the preferences are used within each group. The
+ * value kinds of the items can be used before (primary) or after (secondary) the groups and preferences. Handlers are
+ * kept right after their state prop, and the pair is sorted as its state prop.
  */
 export default class PreferenceSorter {
-  private orders = new Array<SplitString[]>();
+  private orders = new Array<[rule: string, order: SplitString[]]>();
+  private useAI: UseAIOption;
+  private elementOrders: ElementOrder[];
+  private grouper: Grouper;
+  private valueKind: ValueKindOption;
+  private valueKindOrder: ValueKind[];
+  private pairFinder: PairFinder;
+  private tieBreaker: TieBreakerOption;
 
-  private constructor(customOrder: SplitString[], useAI: Extract<UseAIOption, 'no'>);
-  private constructor(customOrder: SplitString[], useAI: Exclude<UseAIOption, 'no'>, aiComparator: AIComparator);
+  private constructor(options: SorterOptions & { useAI: Extract<UseAIOption, 'no'> });
+  private constructor(options: SorterOptions & { useAI: Exclude<UseAIOption, 'no'> }, aiComparator: AIComparator);
   private constructor(
-    customOrder: SplitString[],
-    private useAI: UseAIOption,
+    {
+      useAI,
+      customOrder,
+      elementOrder = [],
+      groups = [],
+      groupOrder = [],
+      valueKind = 'no',
+      valueKindOrder = [],
+      pairs = [],
+      detectPairs = false,
+      tieBreaker = 'ai',
+      builtinOrder = 'default',
+      presets = [],
+    }: SorterOptions,
     private aiComparator?: AIComparator,
   ) {
+    this.useAI = useAI;
+    this.valueKind = valueKind;
+    this.valueKindOrder = valueKindOrder;
+    this.tieBreaker = tieBreaker;
+    this.elementOrders = parseElementOrders(elementOrder);
+    this.grouper = new Grouper(groups, groupOrder);
+    this.pairFinder = new PairFinder(pairs, detectPairs);
     if (customOrder.length > 1) {
-      this.orders.push(customOrder);
+      this.orders.push(['sortPropsCustomOrder', customOrder.map(parsePattern)]);
     }
-    this.orders.push(order);
+    getPresetOrders(presets).forEach((order, i) => this.orders.push([`sortPropsPreset "${presets[i]}"`, order]));
+    const order = getBuiltinOrder(builtinOrder);
+    if (order.length) this.orders.push(['predefined order', order]);
   }
-  static async create(useAI: UseAIOption, customOrder: string[]): Promise<PreferenceSorter> {
-    if (useAI === 'no') return new PreferenceSorter(customOrder.map(splitIdentifier), useAI);
-    return new PreferenceSorter(customOrder.map(splitIdentifier), useAI, await AIComparator.create());
+  static async create(options: SorterOptions): Promise<PreferenceSorter> {
+    if (options.useAI === 'no') return new PreferenceSorter({ ...options, useAI: options.useAI });
+    if (options.tieBreaker && options.tieBreaker !== 'ai') return new PreferenceSorter({ ...options, useAI: 'no' }); // the AI is not needed
+    return new PreferenceSorter(
+      { ...options, useAI: options.useAI },
+      await AIComparator.create(options.persistentCache, options.modelPath),
+    );
   }
 
-  async sort(arr: SplitString[]): Promise<SplitString[]> {
+  /**
+   * Sort the items.
+   * @param arr The items to sort
+   * @param hints Additional information about the items
+   * @returns The sorted items
+   */
+  async sort(arr: SplitString[], hints: SortHints = {}): Promise<SplitString[]> {
     if (arr.length < 2) return arr;
 
-    const dag = new DAG(arr);
-    for (const order of this.orders) {
+    const pairs = this.pairFinder.enabled ? this.pairFinder.find(arr, hints.fixed) : undefined;
+    if (!pairs?.size) return await this.sortItems(arr, hints);
+
+    const handlers = new Set(Array.from(pairs.values()).flat());
+    const sorted = await this.sortItems(
+      arr.filter(item => !handlers.has(item)),
+      hints,
+    );
+    return sorted.flatMap(item => [item, ...(pairs.get(item) ?? [])]);
+  }
+
+  private async sortItems(
+    arr: SplitString[],
+    { element, fixed = [], kinds, lengths, names, onConflict }: SortHints,
+  ): Promise<SplitString[]> {
+    if (arr.length < 2) return arr;
+
+    const kindChain =
+      kinds && this.valueKind !== 'no'
+        ? this.valueKindOrder.map(kind => arr.filter(item => kinds.get(item) === kind))
+        : undefined;
+
+    let rule: string | undefined = 'side effects'; // the rule whose edges are being added, for reporting conflicts
+    const dag = new DAG(arr, names, onConflict && ((before, after) => rule && onConflict({ rule, before, after })));
+    dag.addEdges(fixed);
+    if (kindChain && this.valueKind === 'primary') {
+      rule = 'sortPropsValueKind';
+      dag.addChain(kindChain);
+    }
+    if (this.grouper.enabled) {
+      rule = 'sortPropsGroupOrder';
+      dag.addChain(this.grouper.group(arr, kinds, names));
+    }
+    if (element !== undefined) {
+      rule = 'sortPropsElementOrder';
+      for (const { matches, order } of this.elementOrders) {
+        if (matches(element)) dag.addEdges(order);
+      }
+    }
+    for (const [name, order] of this.orders) {
+      rule = name;
       dag.addEdges(order);
     }
+    if (kindChain && this.valueKind === 'secondary') {
+      rule = 'sortPropsValueKind';
+      dag.addChain(kindChain);
+    }
+    rule = undefined; // the tie-breakers only order the remaining items
+
+    if (this.tieBreaker !== 'ai') {
+      return await dag.topoSort(createTieBreaker(this.tieBreaker, arr, lengths));
+    }
 
     switch (this.useAI) {
       case 'yes':
+        await this.aiComparator!.rawCompareMany(allPairs(arr)); // compare in a single batch, the results are cached
         return await dag.topoSort(this.aiComparator!.compare.bind(this.aiComparator));
       case 'stable':
         const n = arr.length;
         const w = Array.from({ length: n }, () => Array.from<number>({ length: n }));
-        for (let i = 0; i < n; ++i) {
+        const outputs = await this.aiComparator!.rawCompareMany(allPairs(arr));
+        for (let i = 0, k = 0; i < n; ++i) {
           for (let j = i + 1; j < n; ++j) {
-            [w[j][i], w[i][j]] = await this.aiComparator!.rawCompare(arr[i], arr[j]);
+            [w[j][i], w[i][j]] = outputs[k++];
           }
         }
         const p = bradleyTerry(w);
@@ -0,0 +1,391 @@
+import type { SplitString } from './split-identifier';
+
+const styledSystem = [
+  'as',
+  'sx',
+  'variant',
+  'color scheme',
+  'size',
+  // layout
+  'display',
+  'w',
+  'width',
+  'min w',
+  'min width',
+  'max w',
+  'max width',
+  'h',
+  'height',
+  'min h',
+  'min height',
+  'max h',
+  'max height',
+  'box size',
+  'overflow',
+  'overflow x',
+  'overflow y',
+  // flexbox and grid
+  'flex',
+  'flex direction',
+  'direction',
+  'align',
+  'align items',
+  'align content',
+  'align self',
+  'justify',
+  'justify content',
+  'justify items',
+  'justify self',
+  'wrap',
+  'flex wrap',
+  'grow',
+  'flex grow',
+  'shrink',
+  'flex shrink',
+  'basis',
+  'flex basis',
+  'order',
+  'grid template columns',
+  'template columns',
+  'grid template rows',
+  'template rows',
+  'grid column',
+  'col span',
+  'grid row',
+  'row span',
+  'gap',
+  'row gap',
+  'column gap',
+  'spacing',
+  // position
+  'pos',
+  'position',
+  'inset',
+  'top',
+  'right',
+  'bottom',
+  'left',
+  'z',
+  'z index',
+  // space
+  'm',
+  'margin',
+  'mx',
+  'margin x',
+  'my',
+  'margin y',
+  'mt',
+  'margin top',
+  'mr',
+  'margin right',
+  'mb',
+  'margin bottom',
+  'ml',
+  'margin left',
+  'p',
+  'padding',
+  'px',
+  'padding x',
+  'py',
+  'padding y',
+  'pt',
+  'padding top',
+  'pr',
+  'padding right',
+  'pb',
+  'padding bottom',
+  'pl',
+  'padding left',
+  // typography
+  'font family',
+  'font size',
+  'font weight',
+  'line height',
+  'letter spacing',
+  'text align',
+  'font style',
+  'text transform',
+  'text decoration',
+  // color
+  'color',
+  'bg',
+  'background',
+  'bg color',
+  'background color',
+  'bg gradient',
+  'opacity',
+  // border and shadow
+  'border',
+  'border width',
+  'border style',
+  'border color',
+  'border *',
+  'rounded',
+  'border radius',
+  'rounded *',
+  'shadow',
+  'box shadow',
+  'text shadow',
+  // pseudo styles, like `_hover`
+  'hover',
+  'focus',
+  'focus visible',
+  'active',
+  'disabled',
+  'dark',
+];
+
+/**
+ * Orders for common libraries, which can be used along with the predefined order.
+ */
+const presets: Record<string, string[]> = {
+  'react-native': [
+    'test id',
+    'native id',
+    // lists
+    'data',
+    'sections',
+    'render item',
+    'render section header',
+    'key extractor',
+    'num columns',
+    'horizontal',
+    'inverted',
+    'initial num to render',
+    'get item layout',
+    'item separator component',
+    'list header component',
+    'list footer component',
+    'list empty component',
+    // images
+    'source',
+    'default source',
+    'resize mode',
+    'resize method',
+    // text input
+    'value',
+    'default value',
+    'placeholder',
+    'placeholder text color',
+    'keyboard type',
+    'input mode',
+    'return key type',
+    'text content type',
+    'auto complete',
+    'auto capitalize',
+    'auto correct',
+    'auto focus',
+    'secure text entry',
+    'multiline',
+    'max length',
+    'editable',
+    // text
+    'number of lines',
+    'ellipsize mode',
+    'selectable',
+    'allow font scaling',
+    // scroll views
+    'content container style',
+    'shows vertical scroll indicator',
+    'shows horizontal scroll indicator',
+    'scroll enabled',
+    'paging enabled',
+    'bounces',
+    'keyboard should persist taps',
+    'keyboard dismiss mode',
+    'scroll event throttle',
+    'refresh control',
+    'refreshing',
+    // touchables
+    'disabled',
+    'hit slop',
+    'press retention offset',
+    'delay long press',
+    'android ripple',
+    'active opacity',
+    'underlay color',
+    // layout
+    'style',
+    'pointer events',
+    'collapsable',
+    'remove clipped subviews',
+    // events
+    'on press',
+    'on press in',
+    'on press out',
+    'on long press',
+    'on change text',
+    'on submit editing',
+    'on focus',
+    'on blur',
+    'on scroll',
+    'on end reached',
+    'on end reached threshold',
+    'on refresh',
+    'on layout',
+    'on load',
+    'on error',
+    'on *',
+    // accessibility
+    'accessible',
+    'accessibility label',
+    'accessibility hint',
+    'accessibility role',
+    'accessibility state',
+    'accessibility value',
+    'accessibility actions',
+    'on accessibility action',
+    'accessibility *',
+    'important for accessibility',
+    'role',
+    'aria *',
+  ],
+  next: [
+    // Link
+    'href',
+    'as',
+    'replace',
+    'scroll',
+    'shallow',
+    'prefetch',
+    'locale',
+    'legacy behavior',
+    'pass href',
+    // Image and Script
+    'src',
+    'alt',
+    'width',
+    'height',
+    'fill',
+    'sizes',
+    'quality',
+    'priority',
+    'placeholder',
+    'blur data url',
+    'loading',
+    'loader',
+    'unoptimized',
+    'override src',
+    'strategy',
+    'on load',
+    'on ready',
+    'on error',
+  ],
+  'styled-system': styledSystem,
+  chakra: styledSystem,
+  mui: [
+    'component',
+    'variant',
+    'color',
+    'size',
+    'edge',
+    // layout
+    'container',
+    'item',
+    'direction',
+    'spacing',
+    'columns',
+    'xs',
+    'sm',
+    'md',
+    'lg',
+    'xl',
+    'divider',
+    // form fields
+    'label',
+    'placeholder',
+    'helper text',
+    'error',
+    'required',
+    'select',
+    'multiline',
+    'rows',
+    'min rows',
+    'max rows',
+    'value',
+    'default value',
+    'checked',
+    'default checked',
+    'open',
+    'disabled',
+    'full width',
+    'start icon',
+    'end icon',
+    'start adornment',
+    'end adornment',
+    'disable elevation',
+    'disable ripple',
+    'gutter bottom',
+    'no wrap',
+    'anchor el',
+    'anchor origin',
+    'transform origin',
+    'slots',
+    'slot props',
+    'components',
+    'components props',
+    'input props',
+    'input label props',
+    'input ref',
+    'sx',
+    'on change',
+    'on close',
+    'on *',
+  ],
+  radix: [
+    'as child',
+    'type',
+    'name',
+    'open',
+    'default open',
+    'on open change',
+    'value',
+    'default value',
+    'on value change',
+    'checked',
+    'default checked',
+    'on checked change',
+    'pressed',
+    'default pressed',
+    'on pressed change',
+    'modal',
+    'dir',
+    'orientation',
+    'collapsible',
+    'loop',
+    'side',
+    'side offset',
+    'align',
+    'align offset',
+    'avoid collisions',
+    'collision padding',
+    'sticky',
+    'force mount',
+    'disabled',
+    'required',
+    'on escape key down',
+    'on pointer down outside',
+    'on focus outside',
+    'on interact outside',
+    'on open auto focus',
+    'on close auto focus',
+  ],
+};
+
+/**
+ * Get the orders of the presets.
+ * @param names The preset names, like `react-native` or `radix`
+ * @returns The orders, in the same order as the names
+ */
+export default function getPresetOrders(names: string[]): SplitString[][] {
+  return names.map(name => {
+    if (!Object.hasOwn(presets, name)) {
+      throw new Error(
+        `Unknown preset "${name}" in sortPropsPreset, expected one of ${Object.keys(presets)
+          .map(preset => `"${preset}"`)
+          .join(', ')}`,
+      );
+    }
+    return presets[name] as SplitString[];
+  });
+}
@@ -0,0 +1,39 @@
+interface Node {
+  type: string;
+  operator?: string;
+}
+
+const IMPURE = new Set([
+  'CallExpression',
+  'OptionalCallExpression',
+  'NewExpression',
+  'ImportExpression',
+  'AwaitExpression',
+  'YieldExpression',
+  'AssignmentExpression',
+  'UpdateExpression',
+  'TaggedTemplateExpression',
+]);
+const DEFERRED = new Set(['ArrowFunctionExpression', 'FunctionExpression']);
+
+/**
+ * Check if evaluating an expression is free of side effects. Literals, identifiers and functions (whose bodies don't run
+ * when the expression is evaluated) are pure; calls, `await`, assignments, `++`/`--`, `delete` and tagged templates are
+ * not. Any other expression is pure if all of its subexpressions are.
+ * @param node The expression, or any AST node containing expressions
+ * @returns Whether the expression is pure
+ */
+export default function isPure(node: unknown): boolean {
+  if (!node || typeof node !== 'object') return true;
+  if (Array.isArray(node)) return node.every(isPure);
+
+  const { type, operator } = node as Node;
+  if (IMPURE.has(type)) return false;
+  if (type === 'UnaryExpression' && operator === 'delete') return false;
+  if (DEFERRED.has(type)) return true;
+
+  for (const key in node) {
+    if (!isPure((node as any)[key])) return false;
+  }
+  return true;
+}
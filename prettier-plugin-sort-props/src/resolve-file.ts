@@ -0,0 +1,17 @@
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import prettier from 'prettier';
+
+/**
+ * Resolve a file from the options. Paths are relative to the Prettier config file, or the working directory if there is
+ * none. Anything else is resolved as a package export, like `@acme/prop-order` or `@acme/config/prop-order.json`.
+ * @param file The path or package export
+ * @param filepath The path of the formatted file, used to find the Prettier config file
+ * @returns The absolute path
+ */
+export default async function resolveFile(file: string, filepath: string | undefined): Promise<string> {
+  const configFile = filepath ? await prettier.resolveConfigFile(filepath) : null;
+  const dir = configFile ? path.dirname(configFile) : process.cwd();
+  if (path.isAbsolute(file) || /^\.\.?[\\/]/.test(file)) return path.resolve(dir, file);
+  return createRequire(path.join(dir, 'noop.js')).resolve(file);
+}
@@ -0,0 +1,38 @@
+import { type SvelteAttribute } from './ast';
+import splitIdentifier, { type SplitString } from './split-identifier';
+
+const DIRECTIVES: Record<string, string> = {
+  // svelte 5
+  OnDirective: 'on',
+  BindDirective: 'bind',
+  ClassDirective: 'class',
+  StyleDirective: 'style',
+  UseDirective: 'use',
+  AnimateDirective: 'animate',
+  LetDirective: 'let',
+  // svelte 4
+  EventHandler: 'on',
+  Binding: 'bind',
+  Class: 'class',
+  Action: 'use',
+  Animation: 'animate',
+  Let: 'let',
+};
+
+/**
+ * Split a Svelte attribute into words. Directives keep their prefix, so `on:click` becomes `on click` and
+ * `bind:value` becomes `bind value`.
+ * @param attr The attribute node
+ * @returns The split attribute name, or `undefined` for spreads and unknown nodes, which must not be moved
+ */
+export default function splitSvelteAttribute(attr: SvelteAttribute): SplitString | undefined {
+  if (attr.type === 'Attribute') return splitIdentifier(attr.name!);
+  if (attr.type === 'TransitionDirective' || attr.type === 'Transition') {
+    const prefix = attr.intro && attr.outro ? 'transition' : attr.intro ? 'in' : 'out';
+    return splitIdentifier(`${prefix}:${attr.name}`);
+  }
+
+  const prefix = DIRECTIVES[attr.type];
+  if (prefix) return splitIdentifier(`${prefix}:${attr.name}`);
+  return undefined;
+}
@@ -0,0 +1,31 @@
+import { type Comparator } from './queue';
+import { type SplitString } from './split-identifier';
+
+export type TieBreakerOption = 'ai' | 'alphabetical' | 'natural' | 'line-length';
+
+const collator = new Intl.Collator('en', { numeric: true });
+
+/**
+ * Create a comparator for the items which are not ordered by any preference. Ties are broken by the original order.
+ * @param tieBreaker The strategy, except `ai` which is handled by the sorter
+ * @param arr The items in their original order
+ * @param lengths The source length of each item, used by `line-length`
+ * @returns The comparator
+ */
+export default function createTieBreaker(
+  tieBreaker: Exclude<TieBreakerOption, 'ai'>,
+  arr: SplitString[],
+  lengths?: Map<SplitString, number>,
+): Comparator<SplitString> {
+  const indexMap = new Map(arr.map((v, i) => [v, i]));
+  const byIndex = (a: SplitString, b: SplitString) => indexMap.get(a)! - indexMap.get(b)!;
+
+  switch (tieBreaker) {
+    case 'alphabetical':
+      return (a, b) => (a < b ? -1 : a > b ? 1 : byIndex(a, b));
+    case 'natural':
+      return (a, b) => collator.compare(a, b) || byIndex(a, b);
+    case 'line-length':
+      return (a, b) => (lengths?.get(a) ?? a.length) - (lengths?.get(b) ?? b.length) || byIndex(a, b);
+  }
+}
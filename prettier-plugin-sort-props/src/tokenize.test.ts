@@ -0,0 +1,29 @@
+import { expect, test } from 'vitest';
+import { type ModelMetadata } from './model-metadata';
+import createTokenizer, { transliterate } from './tokenize';
+
+const METADATA: ModelMetadata = {
+  version: 'test',
+  vocab: '$abc ',
+  seqLen: 5,
+  inputs: ['input1', 'input2'],
+  outputs: ['cmp', 'cmpRev'],
+};
+
+test('transliterate', () => {
+  expect(transliterate('ärger straße ﬁle øre')).toBe('arger strasse file ore');
+  expect(transliterate('中文')).toBe('中文');
+});
+
+test('names longer than seqLen keep their head and tail', () => {
+  const tokenize = createTokenizer(METADATA);
+  expect(Array.from(tokenize(['abcabcab']))).toEqual([2, 3, 4, 2, 3]);
+  expect(Array.from(tokenize(['abcabcab', 'b']))).toEqual([2, 3, 4, 2, 3, 3, 0, 0, 0, 0]);
+});
+
+test('unknown characters', () => {
+  expect(Array.from(createTokenizer(METADATA)(['a中b']))).toEqual([2, 3, 0, 0, 0]);
+  expect(Array.from(createTokenizer({ ...METADATA, unknownToken: 6 })(['a中b', 'a$b']))).toEqual([
+    2, 6, 3, 0, 0, 2, 1, 3, 0, 0,
+  ]);
+});
@@ -0,0 +1,62 @@
+import { type ModelMetadata } from './model-metadata';
+
+/**
+ * Letters which are not split into a base letter and accents by Unicode normalization.
+ */
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  đ: 'd',
+  ð: 'd',
+  þ: 'th',
+  ł: 'l',
+  ı: 'i',
+  ħ: 'h',
+  ŋ: 'ng',
+};
+
+/**
+ * Replace accented and other Latin letters with their closest ASCII letters, like `ü` with `u` and `ß` with `ss`.
+ * Characters of other scripts are kept.
+ */
+export function transliterate(word: string): string {
+  return word
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^\x00-\x7f]/g, char => TRANSLITERATIONS[char] ?? char);
+}
+
+/**
+ * Create a tokenizer for a model. Each identifier is transliterated, and characters which are still not in the
+ * vocabulary become the `unknownToken`, or are dropped if the model has none. Identifiers longer than `seqLen` keep
+ * their first and last characters, as the start and end of a prop name say the most about it, like `on` and `change`.
+ * @param metadata The metadata of the model
+ * @returns A function to tokenize identifiers into a batch, with one row of `seqLen` tokens per identifier
+ */
+export default function createTokenizer({
+  vocab,
+  seqLen,
+  unknownToken,
+}: ModelMetadata): (words: string[]) => Int32Array {
+  const tokens = new Map(Array.from(vocab, (char, i) => [char, i + 1]));
+  const head = Math.ceil(seqLen / 2),
+    tail = seqLen - head;
+
+  function tokenizeWord(word: string): number[] {
+    const wordTokens = Array<number>();
+    for (const char of transliterate(word)) {
+      const token = tokens.get(char) ?? unknownToken;
+      if (token !== undefined) wordTokens.push(token);
+    }
+    if (wordTokens.length <= seqLen) return wordTokens;
+    return [...wordTokens.slice(0, head), ...wordTokens.slice(wordTokens.length - tail)];
+  }
+
+  return words => {
+    const batch = new Int32Array(words.length * seqLen);
+    words.forEach((word, row) => batch.set(tokenizeWord(word), row * seqLen));
+    return batch;
+  };
+}
@@ -0,0 +1,43 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { expect, test } from 'vitest';
+import readMetadata from './model-metadata';
+import createONNXBackend from './onnx-backend';
+import createTokenizer from './tokenize';
+import createTSBackend from './ts-backend';
+
+const MODEL_PATH = path.join(import.meta.dirname, 'model.onnx');
+// split like the props the comparator gets
+const NAMES = [
+  'id',
+  'key',
+  'class name',
+  'style',
+  'on click',
+  'on change',
+  'disabled',
+  'aria label',
+  'data test id',
+  'x',
+  'on some very long callback name which is truncated',
+];
+
+test('the TypeScript backend matches onnxruntime-node', async () => {
+  const metadata = await readMetadata(MODEL_PATH),
+    model = await fs.readFile(MODEL_PATH);
+  const onnx = await createONNXBackend(model, metadata, MODEL_PATH);
+  expect(onnx, 'onnxruntime-node must be installed to run this test').toBeDefined();
+  const ts = createTSBackend(model, metadata);
+
+  const pairs = NAMES.flatMap(a => NAMES.filter(b => b !== a).map(b => [a, b]));
+  const tokenize = createTokenizer(metadata);
+  const input1 = tokenize(pairs.map(([a]) => a)),
+    input2 = tokenize(pairs.map(([, b]) => b));
+  const expected = await onnx!.run(input1, input2, pairs.length),
+    actual = await ts.run(input1, input2, pairs.length);
+
+  for (let output = 0; output < 2; ++output) {
+    expect(actual[output]).toHaveLength(pairs.length);
+    actual[output].forEach((value, i) => expect(value).toBeCloseTo(expected[output][i], 5));
+  }
+});
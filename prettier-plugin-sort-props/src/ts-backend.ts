@@ -0,0 +1,264 @@
+import { type Backend } from './ai-cmp';
+import { type ModelMetadata } from './model-metadata';
+
+interface Weights {
+  dims: number[];
+  data: Float32Array;
+}
+
+interface Node {
+  opType: string;
+  inputs: string[];
+}
+
+/**
+ * Read the fields of a protobuf message.
+ */
+function* readFields(buf: Uint8Array): Generator<[field: number, wireType: number, value: number | Uint8Array]> {
+  let pos = 0;
+  function varint(): number {
+    let result = 0,
+      shift = 1;
+    for (;;) {
+      const byte = buf[pos++];
+      result += (byte & 0x7f) * shift; // may not fit in 32 bits
+      if (!(byte & 0x80)) return result;
+      shift *= 0x80;
+    }
+  }
+
+  while (pos < buf.length) {
+    const tag = varint(),
+      wireType = tag & 7;
+    let value: number | Uint8Array;
+    if (wireType === 0) value = varint();
+    else if (wireType === 1) value = buf.subarray(pos, (pos += 8));
+    else if (wireType === 2) {
+      const length = varint();
+      value = buf.subarray(pos, (pos += length));
+    } else if (wireType === 5) value = buf.subarray(pos, (pos += 4));
+    else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    yield [Math.floor(tag / 8), wireType, value];
+  }
+}
+
+function toFloats(bytes: Uint8Array): Float32Array {
+  const floats = new Float32Array(bytes.length / 4),
+    view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let i = 0; i < floats.length; ++i) floats[i] = view.getFloat32(i * 4, true);
+  return floats;
+}
+
+const decoder = new TextDecoder();
+
+/**
+ * Read a node of an ONNX graph.
+ */
+function readNode(node: Uint8Array): Node {
+  let opType = '';
+  const inputs = Array<string>();
+  for (const [field, , value] of readFields(node)) {
+    if (field === 1) inputs.push(decoder.decode(value as Uint8Array));
+    else if (field === 4) opType = decoder.decode(value as Uint8Array);
+  }
+  return { opType, inputs };
+}
+
+/**
+ * Read the nodes and the float initializers (weights) of an ONNX model.
+ */
+function readGraph(model: Uint8Array): { nodes: Node[]; weights: Map<string, Weights> } {
+  const nodes = Array<Node>(),
+    weights = new Map<string, Weights>();
+  for (const [field, , graph] of readFields(model)) {
+    if (field !== 7) continue; // ModelProto.graph
+    for (const [field, , tensor] of readFields(graph as Uint8Array)) {
+      if (field === 1) nodes.push(readNode(tensor as Uint8Array)); // GraphProto.node
+      if (field !== 5) continue; // GraphProto.initializer
+      let name = '',
+        dataType = 0,
+        data: Float32Array | undefined;
+      const dims = Array<number>();
+      for (const [field, wireType, value] of readFields(tensor as Uint8Array)) {
+        if (field === 1 && wireType === 0) dims.push(value as number);
+        else if (field === 1)
+          for (const [, , dim] of readFields(packedVarints(value as Uint8Array))) dims.push(dim as number);
+        else if (field === 2) dataType = value as number;
+        else if (field === 8) name = decoder.decode(value as Uint8Array);
+        else if (field === 4 || field === 9) data = toFloats(value as Uint8Array); // float_data or raw_data
+      }
+      if (dataType === 1 && data) weights.set(name, { dims, data });
+    }
+  }
+  return { nodes, weights };
+}
+
+/**
+ * Turn packed varints into fields, so they can be read with `readFields`.
+ */
+function packedVarints(bytes: Uint8Array): Uint8Array {
+  const fields = Array<number>();
+  for (let i = 0; i < bytes.length; ++i) {
+    if (i === 0 || !(bytes[i - 1] & 0x80)) fields.push(0x08); // field 1, varint
+    fields.push(bytes[i]);
+  }
+  return Uint8Array.from(fields);
+}
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * Compute `W·x + b` for a matrix of shape `[out, in]`.
+ */
+function linear(w: Weights, b: Float32Array, bOffset: number, x: Float32Array, out: Float32Array, wOffset = 0) {
+  const [rows, cols] = w.dims.slice(-2);
+  for (let r = 0; r < rows; ++r) {
+    let sum = b[bOffset + r];
+    const row = wOffset + r * cols;
+    for (let c = 0; c < cols; ++c) sum += w.data[row + c] * x[c];
+    out[r] = sum;
+  }
+}
+
+/**
+ * Run a bidirectional ONNX LSTM layer, with zero initial states and the gates in the `iofc` order.
+ * @returns The outputs at each step, with the forward and backward outputs concatenated, and the final hidden states
+ */
+function lstm(
+  inputs: Float32Array[],
+  w: Weights,
+  r: Weights,
+  b: Weights,
+): [outputs: Float32Array[], forward: Float32Array, backward: Float32Array] {
+  const hidden = r.dims[2],
+    gates = 4 * hidden,
+    outputs = inputs.map(() => new Float32Array(2 * hidden));
+  const xGates = new Float32Array(gates),
+    hGates = new Float32Array(gates),
+    zeros = new Float32Array(gates);
+  const finals = Array<Float32Array>();
+
+  for (let dir = 0; dir < 2; ++dir) {
+    let h = new Float32Array(hidden);
+    const c = new Float32Array(hidden);
+    for (let step = 0; step < inputs.length; ++step) {
+      const t = dir === 0 ? step : inputs.length - 1 - step;
+      linear(w, b.data, dir * 2 * gates, inputs[t], xGates, dir * gates * w.dims[2]);
+      linear(r, zeros, 0, h, hGates, dir * gates * hidden);
+      for (let j = 0; j < gates; ++j) hGates[j] += xGates[j] + b.data[dir * 2 * gates + gates + j];
+
+      h = new Float32Array(hidden);
+      for (let j = 0; j < hidden; ++j) {
+        const i = sigmoid(hGates[j]),
+          o = sigmoid(hGates[hidden + j]),
+          f = sigmoid(hGates[2 * hidden + j]),
+          g = Math.tanh(hGates[3 * hidden + j]);
+        c[j] = f * c[j] + i * g;
+        h[j] = o * Math.tanh(c[j]);
+      }
+      outputs[t].set(h, dir * hidden);
+    }
+    finals.push(h);
+  }
+  return [outputs, finals[0], finals[1]];
+}
+
+/**
+ * Create a backend which runs the bundled model in plain TypeScript, for when `onnxruntime-node` is not available. It
+ * only supports the architecture of the bundled model: a character embedding, a 2 layer bidirectional LSTM and a linear
+ * layer to encode each identifier, and a 2 layer classifier on the features of both encodings.
+ *
+ * The encoding of each identifier is cached, so most of the work for a batch is done once per identifier instead of
+ * once per pair.
+ * @param model The ONNX model
+ * @param metadata The metadata of the model
+ */
+export default function createTSBackend(model: Uint8Array, { vocab, seqLen, unknownToken }: ModelMetadata): Backend {
+  const { nodes, weights } = readGraph(model);
+  const get = (name: string) => {
+    const w = weights.get(name);
+    if (!w) {
+      throw new Error(
+        `The model has no "${name}" weights. Without onnxruntime-node, only models with the architecture of the bundled model are supported.`,
+      );
+    }
+    return w;
+  };
+  // the names of the LSTM weights are generated when the model is exported, so they are read from the LSTM nodes, which
+  // are repeated for each identifier
+  const lstms = new Map<string, string[]>();
+  for (const { opType, inputs } of nodes) {
+    if (opType === 'LSTM') lstms.set(inputs.slice(1, 4).join(), inputs.slice(1, 4)); // W, R and B
+  }
+  if (lstms.size !== 2) {
+    throw new Error(
+      `The model has ${lstms.size} LSTM layers instead of 2. Without onnxruntime-node, only models with the architecture of the bundled model are supported.`,
+    );
+  }
+  const embedding = get('char_encoder.embedding.weight'),
+    layers = Array.from(lstms.values(), ([w, r, b]) => [get(w), get(r), get(b)]),
+    fcW = get('char_encoder.fc.weight'),
+    fcB = get('char_encoder.fc.bias'),
+    c0W = get('classifier.0.weight'),
+    c0B = get('classifier.0.bias'),
+    c3W = get('classifier.3.weight'),
+    c3B = get('classifier.3.bias');
+
+  const tokenCount = Math.max(Array.from(vocab).length, unknownToken ?? 0) + 1;
+  if (embedding.dims[0] < tokenCount) {
+    throw new Error(`The model has ${embedding.dims[0]} tokens, but its vocabulary needs ${tokenCount}`);
+  }
+
+  const embeddingSize = embedding.dims[1];
+  const encodings = new Map<string, Float32Array>();
+  function encode(tokens: Int32Array): Float32Array {
+    const key = tokens.join();
+    let encoding = encodings.get(key);
+    if (encoding) return encoding;
+
+    let inputs = Array.from(tokens, token =>
+      embedding.data.subarray(token * embeddingSize, (token + 1) * embeddingSize),
+    );
+    let last: Float32Array = new Float32Array();
+    for (const [w, r, b] of layers) {
+      const [outputs, forward, backward] = lstm(inputs, w, r, b);
+      inputs = outputs;
+      last = new Float32Array([...forward, ...backward]);
+    }
+    encoding = new Float32Array(fcW.dims[0]);
+    linear(fcW, fcB.data, 0, last, encoding);
+    encodings.set(key, encoding);
+    return encoding;
+  }
+
+  const size = fcW.dims[0],
+    features = new Float32Array(4 * size),
+    hidden = new Float32Array(c0W.dims[0]),
+    output = new Float32Array(1);
+  function classify(a: Float32Array, b: Float32Array): number {
+    for (let i = 0; i < size; ++i) {
+      features[i] = a[i];
+      features[size + i] = b[i];
+      features[2 * size + i] = a[i] * b[i];
+      features[3 * size + i] = a[i] - b[i];
+    }
+    linear(c0W, c0B.data, 0, features, hidden);
+    for (let i = 0; i < hidden.length; ++i) hidden[i] = Math.max(hidden[i], 0);
+    linear(c3W, c3B.data, 0, hidden, output);
+    return sigmoid(output[0]);
+  }
+
+  return {
+    async run(input1, input2, batchSize) {
+      const cmp = new Float32Array(batchSize),
+        cmpRev = new Float32Array(batchSize);
+      for (let i = 0; i < batchSize; ++i) {
+        const a = encode(input1.subarray(i * seqLen, (i + 1) * seqLen)),
+          b = encode(input2.subarray(i * seqLen, (i + 1) * seqLen));
+        cmp[i] = classify(a, b);
+        cmpRev[i] = classify(b, a);
+      }
+      return [cmp, cmpRev];
+    },
+  };
+}
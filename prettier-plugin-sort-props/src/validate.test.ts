@@ -0,0 +1,20 @@
+import { expect, test } from 'vitest';
+import validateOptions from './validate';
+
+test('options which would stop the sorter from being created are reported', () => {
+  expect(
+    validateOptions({
+      useAI: 'no',
+      customOrder: [],
+      pairs: ['value onInput', 'checked'],
+      presets: ['radix', 'nope'],
+      groups: ['on *', '[events]', 'kind:callback'],
+      elementOrder: ['id', '<Route>', 'path'],
+    }),
+  ).toEqual([
+    'Expected an element pattern like "<Route>" before "id" in sortPropsElementOrder.',
+    'Expected a group name like "[events]" before "on *" in sortPropsGroups.',
+    'Expected a prop followed by its handlers, like "value onInput", but got "checked" in sortPropsPairs.',
+    expect.stringMatching(/^Unknown preset "nope" in sortPropsPreset/),
+  ]);
+});
@@ -0,0 +1,119 @@
+import { compileRegex, isRegexPattern, parsePattern } from './graph';
+import { groups as predefinedGroups } from './order';
+import { parsePairs } from './pairs';
+import { type SorterOptions } from './preference-sorter';
+import getPresetOrders from './presets';
+import { type ValueKind } from './value-kind';
+
+const VALUE_KINDS: ValueKind[] = ['shorthand', 'literal', 'expression', 'callback', 'multiline'];
+const warned = new Set<string>();
+
+/**
+ * Find mistakes in the options which make them useless without causing an error, like a custom order with a single
+ * entry, or which cause an error, like invalid regexes.
+ * @param options The sorter options
+ * @returns The problems
+ */
+export default function validateOptions({
+  customOrder,
+  elementOrder = [],
+  groups = [],
+  groupOrder = [],
+  valueKindOrder = [],
+  pairs = [],
+  presets = [],
+}: SorterOptions): string[] {
+  const problems = Array<string>();
+
+  if (customOrder.length === 1) {
+    problems.push(
+      `sortPropsCustomOrder has a single entry "${customOrder[0]}", which has no effect. List the props it must be sorted with.`,
+    );
+  }
+  const seen = new Set<string>();
+  for (const entry of customOrder) {
+    try {
+      const pattern = parsePattern(entry);
+      if (seen.has(pattern)) problems.push(`"${entry}" is listed more than once in sortPropsCustomOrder.`);
+      seen.add(pattern);
+    } catch (e) {
+      problems.push(`${(e as Error).message} in sortPropsCustomOrder.`);
+    }
+  }
+
+  for (const entry of [...elementOrder, ...groups]) {
+    const element = /^<(.+)>$/.exec(entry.trim());
+    if (element ? !isRegexPattern(element[1]) : /^\[.+\]$|^kind:/.test(entry.trim())) continue;
+    try {
+      if (element) compileRegex(element[1]);
+      else parsePattern(entry);
+    } catch (e) {
+      problems.push(
+        `${(e as Error).message} in ${elementOrder.includes(entry) ? 'sortPropsElementOrder' : 'sortPropsGroups'}.`,
+      );
+    }
+  }
+
+  if (elementOrder.length && !/^<.+>$/.test(elementOrder[0].trim())) {
+    problems.push(`Expected an element pattern like "<Route>" before "${elementOrder[0]}" in sortPropsElementOrder.`);
+  }
+  if (groups.length && !/^\[.+\]$/.test(groups[0].trim())) {
+    problems.push(`Expected a group name like "[events]" before "${groups[0]}" in sortPropsGroups.`);
+  }
+
+  const groupNames = new Set(['other', ...predefinedGroups.keys()]);
+  for (const entry of groups) {
+    const name = /^\[(.+)\]$/.exec(entry.trim());
+    if (name) groupNames.add(name[1]);
+  }
+  for (const group of groupOrder) {
+    if (!groupNames.has(group)) {
+      problems.push(`Unknown group "${group}" in sortPropsGroupOrder. Define it in sortPropsGroups.`);
+    }
+  }
+
+  for (const kind of valueKindOrder) {
+    if (!VALUE_KINDS.includes(kind)) {
+      problems.push(
+        `Unknown value kind "${kind}" in sortPropsValueKindOrder, expected one of ${VALUE_KINDS.join(', ')}.`,
+      );
+    }
+  }
+  for (const entry of groups) {
+    const kind = /^kind:(\w+)$/.exec(entry.trim());
+    if (kind && !VALUE_KINDS.includes(kind[1] as ValueKind)) {
+      problems.push(`Unknown value kind "${kind[1]}" in sortPropsGroups, expected one of ${VALUE_KINDS.join(', ')}.`);
+    }
+  }
+
+  for (const entry of pairs) {
+    try {
+      parsePairs([entry]);
+    } catch (e) {
+      problems.push(`${(e as Error).message}.`);
+    }
+  }
+  for (const preset of presets) {
+    try {
+      getPresetOrders([preset]);
+    } catch (e) {
+      problems.push(`${(e as Error).message}.`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Warn once about each problem in the options.
+ * @returns The problems
+ */
+export function warnInvalidOptions(options: SorterOptions): string[] {
+  const problems = validateOptions(options);
+  for (const problem of problems) {
+    if (warned.has(problem)) continue;
+    warned.add(problem);
+    console.warn(`[prettier-plugin-sort-props] ${problem}`);
+  }
+  return problems;
+}
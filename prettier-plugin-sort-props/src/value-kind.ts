@@ -0,0 +1,52 @@
+import { type JSXAttribute } from './ast';
+
+export type ValueKind = 'shorthand' | 'literal' | 'expression' | 'callback' | 'multiline';
+export type ValueKindOption = 'no' | 'primary' | 'secondary';
+
+interface Node {
+  type: string;
+  expression?: Node;
+  expressions?: Node[];
+}
+
+const LITERALS = new Set([
+  'Literal',
+  'StringLiteral',
+  'NumericLiteral',
+  'BooleanLiteral',
+  'NullLiteral',
+  'BigIntLiteral',
+  'JSXText',
+]);
+const CALLBACKS = new Set(['ArrowFunctionExpression', 'FunctionExpression']);
+const MULTILINE = new Set(['JSXElement', 'JSXFragment', 'ObjectExpression', 'ArrayExpression']);
+
+/**
+ * Get the kind of the value of a JSX attribute.
+ * - `shorthand`: No value, like `disabled`.
+ * - `literal`: A literal, like `id="a"`, `tabIndex={0}` or `title={`a`}`.
+ * - `callback`: An inline function, like `onClick={() => {}}`.
+ * - `multiline`: A JSX element, object or array spanning multiple lines.
+ * - `expression`: Anything else.
+ * @param attr The attribute
+ * @param text The source text
+ * @param locStart The function to get the start of a node
+ * @param locEnd The function to get the end of a node
+ * @returns The kind of the value
+ */
+export default function getValueKind(
+  { value }: JSXAttribute,
+  text: string,
+  locStart: (node: any) => number,
+  locEnd: (node: any) => number,
+): ValueKind {
+  if (!value) return 'shorthand';
+
+  let node = value as Node;
+  if (node.type === 'JSXExpressionContainer') node = node.expression!;
+  if (LITERALS.has(node.type)) return 'literal';
+  if (node.type === 'TemplateLiteral' && !node.expressions!.length) return 'literal';
+  if (CALLBACKS.has(node.type)) return 'callback';
+  if (MULTILINE.has(node.type) && text.slice(locStart(node), locEnd(node)).includes('\n')) return 'multiline';
+  return 'expression';
+}
@@ -0,0 +1,20 @@
+import splitIdentifier, { type SplitString } from './split-identifier';
+
+const SHORTHANDS: Record<string, string> = { ':': 'v-bind:', '.': 'v-bind:', '@': 'v-on:', '#': 'v-slot:' };
+
+/**
+ * Split a Vue attribute name into words. Directive shorthands are expanded (`:title` becomes `v bind title`, `@click`
+ * becomes `v on click`, `#default` becomes `v slot default`) and modifiers are dropped.
+ * @param name The attribute name
+ * @returns The split attribute name, or `undefined` for object bindings (`v-bind="obj"`, `v-on="obj"`) which act like
+ * spreads and must not be moved
+ */
+export default function splitVueAttribute(name: string): SplitString | undefined {
+  const shorthand = SHORTHANDS[name[0]];
+  if (shorthand) name = shorthand + name.slice(1);
+  if (!name.startsWith('v-')) return splitIdentifier(name);
+
+  const [, directive, arg] = /^v-([^:.]+)(?::\[?([^\].]*)\]?)?/.exec(name)!;
+  if (!arg && (directive === 'bind' || directive === 'on')) return undefined;
+  return splitIdentifier(arg ? `v-${directive}:${arg}` : `v-${directive}`);
+}